@@ -0,0 +1,17 @@
+export const environment = { isDevelopment: false };
+
+export function getPreferenceValues<T>(): T {
+  return {} as T;
+}
+
+const storage = new Map<string, string>();
+
+export const LocalStorage = {
+  getItem: async <T>(key: string): Promise<T | undefined> => storage.get(key) as T | undefined,
+  setItem: async (key: string, value: string): Promise<void> => {
+    storage.set(key, value);
+  },
+  removeItem: async (key: string): Promise<void> => {
+    storage.delete(key);
+  },
+};
@@ -0,0 +1,89 @@
+import { Icon, showToast, Toast, popToRoot } from "@raycast/api";
+import { useState, useEffect, useRef } from "react";
+import { listVaults, checkAuth, createLoginItem } from "./lib/pass-cli";
+import { LoginItemInput, PassCliError, PassCliErrorType, Vault } from "./lib/types";
+import { canWriteToVault } from "./lib/utils";
+import { getCachedVaults, setCachedVaults, upsertCachedItem, adjustCachedVaultItemCount } from "./lib/cache";
+import { renderErrorView } from "./lib/error-views";
+import { ItemForm } from "./lib/item-form";
+
+export default function Command() {
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<PassCliErrorType | null>(null);
+  const hasLoadedFromCache = useRef(false);
+
+  useEffect(() => {
+    loadVaults();
+  }, []);
+
+  async function loadVaults() {
+    setError(null);
+
+    const cachedVaults = await getCachedVaults();
+    if (cachedVaults && !hasLoadedFromCache.current) {
+      setVaults(cachedVaults);
+      setIsLoading(false);
+      hasLoadedFromCache.current = true;
+    }
+
+    try {
+      const isAuth = await checkAuth();
+      if (!isAuth) {
+        setError("not_authenticated");
+        return;
+      }
+
+      const freshVaults = await listVaults();
+      setVaults(freshVaults);
+      await setCachedVaults(freshVaults);
+    } catch (e: unknown) {
+      if (!hasLoadedFromCache.current) {
+        setError(e instanceof PassCliError ? e.type : "unknown");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSubmit(input: LoginItemInput, shareId?: string) {
+    const vault = vaults.find((v) => v.shareId === shareId);
+    if (!vault) {
+      await showToast({ style: Toast.Style.Failure, title: "Select a vault" });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating login..." });
+    try {
+      const item = await createLoginItem(vault, input);
+      await Promise.all([upsertCachedItem(item), adjustCachedVaultItemCount(vault.shareId, 1)]);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Login Created";
+      toast.message = `${item.title} in ${vault.name}`;
+      await popToRoot({ clearSearchBar: true });
+    } catch (e: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to create login";
+      toast.message = e instanceof Error ? e.message : "An unknown error occurred";
+    }
+  }
+
+  const errorView = renderErrorView(error, loadVaults, "Load Vaults");
+  if (errorView) return errorView;
+
+  const writableVaults = vaults.filter((vault) => canWriteToVault(vault.role));
+
+  return (
+    <ItemForm
+      navigationTitle="Create Login"
+      submitTitle="Create Login"
+      submitIcon={Icon.Plus}
+      isLoading={isLoading}
+      vaults={writableVaults}
+      showLoginFields={true}
+      showTotpField={true}
+      onSubmit={handleSubmit}
+    />
+  );
+}
@@ -0,0 +1,223 @@
+import { List, ActionPanel, Action, Icon, Color, showToast, Toast, confirmAlert, Alert } from "@raycast/api";
+import { useState, useEffect, useRef } from "react";
+import { listItems, listVaults, checkAuth } from "./lib/pass-cli";
+import { Item, PassCliError, PassCliErrorType, Vault } from "./lib/types";
+import { getItemIcon, formatItemSubtitle, canWriteToVault, toItem } from "./lib/utils";
+import {
+  getCachedItems,
+  setCachedItems,
+  getCachedVaults,
+  setCachedVaults,
+  upsertCachedItem,
+  removeCachedItem,
+  adjustCachedVaultItemCount,
+} from "./lib/cache";
+import { renderErrorView } from "./lib/error-views";
+import { ItemDetailView } from "./lib/item-detail";
+import { DuplicateCompareView } from "./lib/duplicate-compare";
+import { DuplicateGroup, MergePlan, findDuplicateGroups, mergeDuplicates, planMerge } from "./lib/duplicates";
+
+export default function Command() {
+  const [items, setItems] = useState<Item[]>([]);
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<PassCliErrorType | null>(null);
+  const hasLoadedFromCache = useRef(false);
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  async function loadItems() {
+    setError(null);
+
+    const [cachedItems, cachedVaults] = await Promise.all([getCachedItems(), getCachedVaults()]);
+    if (cachedItems && cachedVaults && !hasLoadedFromCache.current) {
+      setItems(cachedItems);
+      setVaults(cachedVaults);
+      setIsLoading(false);
+      hasLoadedFromCache.current = true;
+    }
+
+    try {
+      const isAuth = await checkAuth();
+      if (!isAuth) {
+        setError("not_authenticated");
+        return;
+      }
+
+      const [freshItems, freshVaults] = await Promise.all([listItems(), listVaults()]);
+      setItems(freshItems);
+      setVaults(freshVaults);
+
+      await Promise.all([setCachedItems(freshItems), setCachedVaults(freshVaults)]);
+    } catch (e: unknown) {
+      if (!hasLoadedFromCache.current) {
+        setError(e instanceof PassCliError ? e.type : "unknown");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const errorView = renderErrorView(error, loadItems, "Load Items");
+  if (errorView) return errorView;
+
+  function canMergeGroup(group: DuplicateGroup): boolean {
+    return group.items.every((item) => {
+      const role = vaults.find((v) => v.shareId === item.shareId)?.role;
+      return role !== undefined && canWriteToVault(role);
+    });
+  }
+
+  async function handleMerge(keep: Item, others: Item[]): Promise<boolean> {
+    let plan: MergePlan;
+    try {
+      plan = await planMerge(keep, others);
+    } catch (e: unknown) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load items",
+        message: e instanceof Error ? e.message : "An unknown error occurred",
+      });
+      return false;
+    }
+
+    const confirmed = await confirmAlert({
+      title: `Merge ${others.length + 1} Items?`,
+      message: [
+        ...plan.conflicts,
+        `URLs, notes and custom fields will be combined into "${keep.title}" (${keep.vaultName}). ${others
+          .map((item) => `"${item.title}" (${item.vaultName})`)
+          .join(", ")} will be moved to trash.`,
+      ].join("\n\n"),
+      icon: plan.conflicts.length > 0 ? Icon.Warning : Icon.Layers,
+      primaryAction: {
+        title: plan.conflicts.length > 0 ? "Merge Anyway" : "Merge",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (!confirmed) return false;
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Merging items..." });
+    try {
+      const { updated: detail, trashed, failed } = await mergeDuplicates(plan);
+      const updated = toItem(detail);
+      await upsertCachedItem(updated);
+      for (const item of trashed) {
+        await removeCachedItem(item.shareId, item.itemId);
+        await adjustCachedVaultItemCount(item.shareId, -1);
+      }
+
+      setItems((current) =>
+        current
+          .filter((i) => !trashed.some((other) => other.shareId === i.shareId && other.itemId === i.itemId))
+          .map((i) => (i.shareId === updated.shareId && i.itemId === updated.itemId ? updated : i)),
+      );
+
+      if (failed.length > 0) {
+        toast.style = Toast.Style.Failure;
+        toast.title = `Merged, but ${failed.length} of ${others.length} items were not moved to trash`;
+        toast.message = [
+          `Not trashed: ${failed.map((item) => item.title).join(", ")}`,
+          trashed.length > 0 ? `Trashed: ${trashed.map((item) => item.title).join(", ")}` : undefined,
+        ]
+          .filter(Boolean)
+          .join(". ");
+      } else {
+        toast.style = Toast.Style.Success;
+        toast.title = "Items Merged";
+        toast.message = `${updated.title} · ${trashed.length} moved to trash`;
+      }
+      return true;
+    } catch (e: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to merge items";
+      toast.message = e instanceof Error ? e.message : "An unknown error occurred";
+      return false;
+    }
+  }
+
+  function handleItemUpdated(updated: Item) {
+    setItems((current) =>
+      current.map((i) => (i.shareId === updated.shareId && i.itemId === updated.itemId ? updated : i)),
+    );
+  }
+
+  const groups = findDuplicateGroups(items);
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search duplicate logins...">
+      {groups.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+          title="No Duplicates Found"
+          description="No logins share an account with a matching site or title"
+        />
+      ) : (
+        groups.map((group) => {
+          const canMerge = canMergeGroup(group);
+          return (
+            <List.Section
+              key={group.id}
+              title={group.items[0].title}
+              subtitle={`${group.items.length} items · ${group.reasons.join(", ")}`}
+            >
+              {group.items.map((item) => (
+                <List.Item
+                  key={`${item.shareId}-${item.itemId}`}
+                  icon={getItemIcon(item.type)}
+                  title={item.title}
+                  subtitle={formatItemSubtitle(item)}
+                  accessories={[{ text: item.vaultName }]}
+                  actions={
+                    <ActionPanel>
+                      <Action.Push
+                        title="Compare Side by Side"
+                        icon={Icon.Sidebar}
+                        target={<DuplicateCompareView group={group} canMerge={canMerge} onMerge={handleMerge} />}
+                      />
+                      {canMerge && (
+                        <Action
+                          title="Keep This and Merge Others"
+                          icon={{ source: Icon.Layers, tintColor: Color.Green }}
+                          shortcut={{ modifiers: ["cmd"], key: "m" }}
+                          onAction={() =>
+                            handleMerge(
+                              item,
+                              group.items.filter((other) => other !== item),
+                            )
+                          }
+                        />
+                      )}
+                      <Action.Push
+                        title="Show Details"
+                        icon={Icon.Eye}
+                        shortcut={{ modifiers: ["cmd"], key: "d" }}
+                        target={
+                          <ItemDetailView
+                            item={item}
+                            vaultRole={vaults.find((v) => v.shareId === item.shareId)?.role}
+                            onItemUpdated={handleItemUpdated}
+                          />
+                        }
+                      />
+                      <ActionPanel.Section>
+                        <Action
+                          title="Refresh"
+                          icon={Icon.ArrowClockwise}
+                          shortcut={{ modifiers: ["cmd"], key: "r" }}
+                          onAction={loadItems}
+                        />
+                      </ActionPanel.Section>
+                    </ActionPanel>
+                  }
+                />
+              ))}
+            </List.Section>
+          );
+        })
+      )}
+    </List>
+  );
+}
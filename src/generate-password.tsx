@@ -1,120 +1,477 @@
-import { List, ActionPanel, Action, Icon, showToast, Toast, Clipboard, getPreferenceValues } from "@raycast/api";
-import { useState, useEffect, useCallback } from "react";
-import { generatePassword, passwordScore } from "./lib/pass-cli";
-import { Preferences, PasswordScore, PassCliError, PassCliErrorType } from "./lib/types";
-import { getPasswordStrengthLabel, getPasswordStrengthIcon, maskPassword } from "./lib/utils";
-import { renderErrorView } from "./lib/error-views";
+import {
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  Clipboard,
+  getPreferenceValues,
+  useNavigation,
+  confirmAlert,
+  Alert,
+} from "@raycast/api";
+import { useState, useEffect, useRef } from "react";
+import { passwordScore } from "./lib/pass-cli";
+import { generatePassword, getSymbolSetError, DEFAULT_SYMBOLS } from "./lib/password-generator";
+import { Preferences, PasswordOptions, PasswordPreset, PasswordScore, PasswordType } from "./lib/types";
+import { getPasswordStrengthLabel, maskPassword } from "./lib/utils";
+import { getGeneratedEntropy } from "./lib/password-strength";
+import { PasswordStrengthDetail } from "./lib/password-strength-detail";
+import {
+  getPasswordPresets,
+  savePasswordPreset,
+  deletePasswordPreset,
+  getDefaultPresetId,
+  setDefaultPresetId,
+} from "./lib/password-presets";
+
+const LENGTH_CHOICES = Array.from({ length: 57 }, (_, i) => i + 8);
+const PIN_LENGTH_CHOICES = Array.from({ length: 9 }, (_, i) => i + 4);
+const WORD_CHOICES = Array.from({ length: 8 }, (_, i) => i + 3);
+const MIN_COUNT_CHOICES = Array.from({ length: 6 }, (_, i) => i);
+const DEFAULT_PIN_LENGTH = 6;
+const CUSTOM_PRESET = "custom";
+const SEPARATORS = [
+  { title: "Hyphen (-)", value: "-" },
+  { title: "Space", value: " " },
+  { title: "Period (.)", value: "." },
+  { title: "Comma (,)", value: "," },
+  { title: "Underscore (_)", value: "_" },
+];
+
+function getDefaultOptions(preferences: Preferences): PasswordOptions {
+  const length = parseInt(preferences.defaultPasswordLength || "20");
+  return {
+    type: (preferences.defaultPasswordType as PasswordType) || "random",
+    length: Number.isFinite(length) ? Math.min(Math.max(length, 8), 64) : 20,
+    words: 4,
+    includeNumbers: true,
+    includeUppercase: true,
+    includeSymbols: true,
+    separator: "-",
+    capitalize: true,
+    excludeAmbiguous: false,
+    minUppercase: 1,
+    minNumbers: 1,
+    minSymbols: 1,
+  };
+}
+
+function MinCountDropdown({
+  id,
+  title,
+  value,
+  onChange,
+}: {
+  id: string;
+  title: string;
+  value?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <Form.Dropdown id={id} title={title} value={String(value ?? 1)} onChange={(v) => onChange(parseInt(v))}>
+      {MIN_COUNT_CHOICES.map((count) => (
+        <Form.Dropdown.Item key={count} value={String(count)} title={String(count)} />
+      ))}
+    </Form.Dropdown>
+  );
+}
+
+function SavePresetForm({
+  options,
+  initialTitle,
+  onSaved,
+}: {
+  options: PasswordOptions;
+  initialTitle?: string;
+  onSaved: (preset: PasswordPreset) => void;
+}) {
+  const [titleError, setTitleError] = useState<string | undefined>();
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { title: string }) {
+    const title = values.title.trim();
+    if (!title) {
+      setTitleError("Title is required");
+      return;
+    }
+
+    const preset = await savePasswordPreset(title, options);
+    onSaved(preset);
+    showToast({ style: Toast.Style.Success, title: "Preset Saved", message: title });
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="Save Preset"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Preset" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="title"
+        title="Title"
+        placeholder="Bank"
+        defaultValue={initialTitle}
+        error={titleError}
+        onChange={() => setTitleError(undefined)}
+      />
+      <Form.Description text="Saving with an existing title replaces that preset." />
+    </Form>
+  );
+}
 
 export default function Command() {
   const preferences = getPreferenceValues<Preferences>();
+  const [options, setOptions] = useState<PasswordOptions | null>(null);
+  const [presets, setPresets] = useState<PasswordPreset[]>([]);
+  const [presetId, setPresetId] = useState<string>(CUSTOM_PRESET);
+  const [defaultPresetId, setDefaultPreset] = useState<string | undefined>();
   const [password, setPassword] = useState<string>("");
   const [score, setScore] = useState<PasswordScore | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showPassword, setShowPassword] = useState(false);
-  const [error, setError] = useState<PassCliErrorType | null>(null);
-
-  const generate = useCallback(
-    async (type?: "random" | "passphrase") => {
-      setIsLoading(true);
-      try {
-        const passwordType = type || (preferences.defaultPasswordType as "random" | "passphrase") || "random";
-        const options = {
-          type: passwordType as "random" | "passphrase",
-          length: passwordType === "random" ? parseInt(preferences.defaultPasswordLength || "20") : undefined,
-          words: passwordType === "passphrase" ? 4 : undefined,
-        };
-
-        const newPassword = await generatePassword(options);
-        setPassword(newPassword);
-
-        const newScore = await passwordScore(newPassword);
-        setScore(newScore);
-        setError(null);
-      } catch (e: unknown) {
-        if (e instanceof PassCliError) {
-          setError(e.type);
-        } else {
-          setError("unknown");
-        }
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [preferences],
-  );
+  const [generationError, setGenerationError] = useState<string | undefined>();
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    loadPresets();
+  }, []);
 
   useEffect(() => {
-    generate();
-  }, [generate]);
+    if (options) generate(options);
+  }, [options]);
+
+  async function loadPresets() {
+    const [storedPresets, storedDefaultId] = await Promise.all([getPasswordPresets(), getDefaultPresetId()]);
+    const defaultPreset = storedPresets.find((preset) => preset.id === storedDefaultId);
+
+    setPresets(storedPresets);
+    setDefaultPreset(defaultPreset?.id);
+    setPresetId(defaultPreset?.id ?? CUSTOM_PRESET);
+    setOptions(defaultPreset?.options ?? getDefaultOptions(preferences));
+  }
+
+  async function generate(current: PasswordOptions) {
+    const request = ++requestRef.current;
+    setScore(null);
+
+    let newPassword: string;
+    try {
+      newPassword = generatePassword(current);
+    } catch (e: unknown) {
+      setPassword("");
+      setGenerationError(e instanceof Error ? e.message : "Failed to generate password");
+      setIsLoading(false);
+      return;
+    }
+
+    setPassword(newPassword);
+    setGenerationError(undefined);
+    setIsLoading(true);
+    try {
+      const newScore = await passwordScore(newPassword);
+      if (request === requestRef.current) setScore(newScore);
+    } catch {
+      // Scoring needs pass-cli; the generator itself works offline.
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  }
+
+  function updateOptions(update: Partial<PasswordOptions>) {
+    if (!options) return;
+
+    const keys = Object.keys(update) as (keyof PasswordOptions)[];
+    if (keys.every((key) => options[key] === update[key])) return;
+
+    setOptions({ ...options, ...update });
+    setPresetId(CUSTOM_PRESET);
+  }
+
+  function selectType(type: PasswordType) {
+    if (!options) return;
+
+    const length = options.length ?? 0;
+    if (type === "pin" && !PIN_LENGTH_CHOICES.includes(length)) {
+      updateOptions({ type, length: DEFAULT_PIN_LENGTH });
+    } else if (type === "random" && !LENGTH_CHOICES.includes(length)) {
+      updateOptions({ type, length: getDefaultOptions(preferences).length });
+    } else {
+      updateOptions({ type });
+    }
+  }
 
-  const errorView = renderErrorView(error, () => generate(), "Generate Password");
-  if (errorView) return errorView;
+  function selectPreset(id: string) {
+    setPresetId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (preset) setOptions(preset.options);
+  }
+
+  function handlePresetSaved(preset: PasswordPreset) {
+    setPresets((current) =>
+      current.some((p) => p.id === preset.id)
+        ? current.map((p) => (p.id === preset.id ? preset : p))
+        : [...current, preset],
+    );
+    setPresetId(preset.id);
+  }
+
+  async function handleSetDefault(preset: PasswordPreset | undefined) {
+    await setDefaultPresetId(preset?.id);
+    setDefaultPreset(preset?.id);
+    showToast({
+      style: Toast.Style.Success,
+      title: preset ? "Default Preset Set" : "Default Preset Cleared",
+      message: preset?.title,
+    });
+  }
+
+  async function handleDeletePreset(preset: PasswordPreset) {
+    const confirmed = await confirmAlert({
+      title: "Delete Preset?",
+      message: `"${preset.title}" will be removed.`,
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await deletePasswordPreset(preset.id);
+    setPresets((current) => current.filter((p) => p.id !== preset.id));
+    if (defaultPresetId === preset.id) setDefaultPreset(undefined);
+    setPresetId(CUSTOM_PRESET);
+    showToast({ style: Toast.Style.Success, title: "Preset Deleted", message: preset.title });
+  }
+
+  if (!options) {
+    return <Form isLoading={true} />;
+  }
+
+  const selectedPreset = presets.find((preset) => preset.id === presetId);
 
   async function copyPassword() {
     await Clipboard.copy(password, { transient: preferences.copyPasswordTransient ?? true });
     showToast({ style: Toast.Style.Success, title: "Password Copied" });
   }
 
+  const entropy = `${Math.round(getGeneratedEntropy(options))} bits of entropy`;
+  const strength = score
+    ? `${getPasswordStrengthLabel(score.passwordScore)} (${Math.round(score.numericScore)}) · ${entropy}`
+    : entropy;
+
   return (
-    <List isLoading={isLoading}>
-      {password && (
+    <Form
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action title="Copy Password" icon={Icon.Clipboard} onAction={copyPassword} />
+          <Action
+            title="Regenerate"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={() => generate(options)}
+          />
+          {password && (
+            <Action.Push
+              title="Show Strength Details"
+              icon={Icon.Gauge}
+              shortcut={{ modifiers: ["cmd"], key: "i" }}
+              target={<PasswordStrengthDetail password={password} options={options} />}
+            />
+          )}
+          <Action
+            title={showPassword ? "Hide Password" : "Show Password"}
+            icon={showPassword ? Icon.EyeDisabled : Icon.Eye}
+            onAction={() => setShowPassword(!showPassword)}
+            shortcut={{ modifiers: ["cmd"], key: "h" }}
+          />
+          <ActionPanel.Section title="Presets">
+            <Action.Push
+              title="Save as Preset"
+              icon={Icon.SaveDocument}
+              shortcut={{ modifiers: ["cmd"], key: "s" }}
+              target={
+                <SavePresetForm options={options} initialTitle={selectedPreset?.title} onSaved={handlePresetSaved} />
+              }
+            />
+            {selectedPreset && selectedPreset.id !== defaultPresetId && (
+              <Action
+                title="Set as Default Preset"
+                icon={Icon.Star}
+                shortcut={{ modifiers: ["cmd"], key: "d" }}
+                onAction={() => handleSetDefault(selectedPreset)}
+              />
+            )}
+            {defaultPresetId && (
+              <Action
+                title="Clear Default Preset"
+                icon={Icon.StarDisabled}
+                onAction={() => handleSetDefault(undefined)}
+              />
+            )}
+            {selectedPreset && (
+              <Action
+                title="Delete Preset"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={() => handleDeletePreset(selectedPreset)}
+              />
+            )}
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Password" text={generationError ?? (showPassword ? password : maskPassword(password))} />
+      <Form.Description title="Strength" text={strength} />
+      <Form.Separator />
+      <Form.Dropdown id="preset" title="Preset" value={presetId} onChange={selectPreset}>
+        <Form.Dropdown.Item value={CUSTOM_PRESET} title="Custom" icon={Icon.Gear} />
+        {presets.map((preset) => (
+          <Form.Dropdown.Item
+            key={preset.id}
+            value={preset.id}
+            title={preset.id === defaultPresetId ? `${preset.title} (Default)` : preset.title}
+            icon={preset.id === defaultPresetId ? Icon.Star : Icon.Document}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="type"
+        title="Type"
+        value={options.type}
+        onChange={(value) => selectType(value as PasswordType)}
+      >
+        <Form.Dropdown.Item value="random" title="Random" icon={Icon.Shuffle} />
+        <Form.Dropdown.Item value="passphrase" title="Passphrase" icon={Icon.Text} />
+        <Form.Dropdown.Item value="pin" title="PIN" icon={Icon.Hashtag} />
+      </Form.Dropdown>
+      {options.type === "pin" && (
+        <Form.Dropdown
+          id="length"
+          title="Length"
+          value={String(options.length)}
+          onChange={(value) => updateOptions({ length: parseInt(value) })}
+        >
+          {PIN_LENGTH_CHOICES.map((length) => (
+            <Form.Dropdown.Item key={length} value={String(length)} title={`${length} digits`} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {options.type === "random" && (
         <>
-          <List.Item
-            icon={Icon.Key}
-            title="Generated Password"
-            subtitle={showPassword ? password : maskPassword(password)}
-            accessories={
-              score
-                ? [
-                    {
-                      icon: getPasswordStrengthIcon(score.passwordScore),
-                      text: getPasswordStrengthLabel(score.passwordScore),
-                      tooltip: score.penalties ? score.penalties.join(", ") : undefined,
-                    },
-                  ]
-                : []
-            }
-            actions={
-              <ActionPanel>
-                <Action title="Copy Password" icon={Icon.Clipboard} onAction={copyPassword} />
-                <Action
-                  title={showPassword ? "Hide Password" : "Show Password"}
-                  icon={showPassword ? Icon.EyeDisabled : Icon.Eye}
-                  onAction={() => setShowPassword(!showPassword)}
-                  shortcut={{ modifiers: ["cmd"], key: "h" }}
-                />
-                <ActionPanel.Section title="Generate New">
-                  <Action
-                    title="Generate Random Password"
-                    icon={Icon.Shuffle}
-                    onAction={() => generate("random")}
-                    shortcut={{ modifiers: ["cmd"], key: "r" }}
-                  />
-                  <Action
-                    title="Generate Passphrase"
-                    icon={Icon.Text}
-                    onAction={() => generate("passphrase")}
-                    shortcut={{ modifiers: ["cmd"], key: "p" }}
-                  />
-                </ActionPanel.Section>
-              </ActionPanel>
-            }
+          <Form.Dropdown
+            id="length"
+            title="Length"
+            value={String(options.length)}
+            onChange={(value) => updateOptions({ length: parseInt(value) })}
+          >
+            {LENGTH_CHOICES.map((length) => (
+              <Form.Dropdown.Item key={length} value={String(length)} title={`${length} characters`} />
+            ))}
+          </Form.Dropdown>
+          <Form.Checkbox
+            id="includeUppercase"
+            title="Include"
+            label="Uppercase letters"
+            value={options.includeUppercase}
+            onChange={(includeUppercase) => updateOptions({ includeUppercase })}
+          />
+          <Form.Checkbox
+            id="includeSymbols"
+            label="Symbols"
+            value={options.includeSymbols}
+            onChange={(includeSymbols) => updateOptions({ includeSymbols })}
+          />
+          <Form.Checkbox
+            id="includeNumbers"
+            label="Numbers"
+            value={options.includeNumbers}
+            onChange={(includeNumbers) => updateOptions({ includeNumbers })}
           />
-          {score && (
-            <List.Item
-              icon={getPasswordStrengthIcon(score.passwordScore)}
-              title="Password Strength"
-              subtitle={getPasswordStrengthLabel(score.passwordScore)}
-              accessories={[
-                { text: `${Math.round(score.numericScore)}` },
-                ...(score.penalties && score.penalties.length > 0
-                  ? [{ text: `${score.penalties.length} ${score.penalties.length === 1 ? "penalty" : "penalties"}` }]
-                  : []),
-              ]}
+          <Form.Checkbox
+            id="excludeAmbiguous"
+            label="Exclude look-alike characters (I, l, 1, |, O, 0, o)"
+            value={options.excludeAmbiguous ?? false}
+            onChange={(excludeAmbiguous) => updateOptions({ excludeAmbiguous })}
+          />
+          {options.includeSymbols && (
+            <Form.TextField
+              id="symbols"
+              title="Symbol Set"
+              placeholder={DEFAULT_SYMBOLS}
+              value={options.symbols ?? ""}
+              error={getSymbolSetError(options.symbols)}
+              onChange={(symbols) => updateOptions({ symbols: symbols || undefined })}
+            />
+          )}
+          {options.includeUppercase && (
+            <MinCountDropdown
+              id="minUppercase"
+              title="Min Uppercase"
+              value={options.minUppercase}
+              onChange={(minUppercase) => updateOptions({ minUppercase })}
             />
           )}
+          {options.includeNumbers && (
+            <MinCountDropdown
+              id="minNumbers"
+              title="Min Numbers"
+              value={options.minNumbers}
+              onChange={(minNumbers) => updateOptions({ minNumbers })}
+            />
+          )}
+          {options.includeSymbols && (
+            <MinCountDropdown
+              id="minSymbols"
+              title="Min Symbols"
+              value={options.minSymbols}
+              onChange={(minSymbols) => updateOptions({ minSymbols })}
+            />
+          )}
+        </>
+      )}
+      {options.type === "passphrase" && (
+        <>
+          <Form.Dropdown
+            id="words"
+            title="Words"
+            value={String(options.words)}
+            onChange={(value) => updateOptions({ words: parseInt(value) })}
+          >
+            {WORD_CHOICES.map((words) => (
+              <Form.Dropdown.Item key={words} value={String(words)} title={`${words} words`} />
+            ))}
+          </Form.Dropdown>
+          <Form.Dropdown
+            id="separator"
+            title="Separator"
+            value={options.separator}
+            onChange={(separator) => updateOptions({ separator })}
+          >
+            {SEPARATORS.map((separator) => (
+              <Form.Dropdown.Item key={separator.title} value={separator.value} title={separator.title} />
+            ))}
+          </Form.Dropdown>
+          <Form.Checkbox
+            id="capitalize"
+            title="Options"
+            label="Capitalize words"
+            value={options.capitalize}
+            onChange={(capitalize) => updateOptions({ capitalize })}
+          />
+          <Form.Checkbox
+            id="includeNumbers"
+            label="Numbers"
+            value={options.includeNumbers}
+            onChange={(includeNumbers) => updateOptions({ includeNumbers })}
+          />
         </>
       )}
-    </List>
+    </Form>
   );
 }
@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef } from "react";
+import { listVaults, checkAuth } from "./lib/pass-cli";
+import { PassCliError, PassCliErrorType, Vault } from "./lib/types";
+import { getCachedVaults, setCachedVaults } from "./lib/cache";
+import { renderErrorView } from "./lib/error-views";
+import { GenerateSshKeyForm } from "./lib/item-form";
+
+export default function Command() {
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<PassCliErrorType | null>(null);
+  const hasLoadedFromCache = useRef(false);
+
+  useEffect(() => {
+    loadVaults();
+  }, []);
+
+  async function loadVaults() {
+    setError(null);
+
+    const cachedVaults = await getCachedVaults();
+    if (cachedVaults && !hasLoadedFromCache.current) {
+      setVaults(cachedVaults);
+      setIsLoading(false);
+      hasLoadedFromCache.current = true;
+    }
+
+    try {
+      const isAuth = await checkAuth();
+      if (!isAuth) {
+        setError("not_authenticated");
+        return;
+      }
+
+      const freshVaults = await listVaults();
+      setVaults(freshVaults);
+      await setCachedVaults(freshVaults);
+    } catch (e: unknown) {
+      if (!hasLoadedFromCache.current) {
+        setError(e instanceof PassCliError ? e.type : "unknown");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const errorView = renderErrorView(error, loadVaults, "Load Vaults");
+  if (errorView) return errorView;
+
+  return <GenerateSshKeyForm vaults={vaults} isLoading={isLoading} />;
+}
@@ -1,33 +1,61 @@
 import { List, ActionPanel, Action, Icon, showToast, Toast, Clipboard, Color } from "@raycast/api";
 import { useState, useEffect, useRef } from "react";
-import { listItems, getTotp, checkAuth } from "./lib/pass-cli";
-import { Item, PassCliError, PassCliErrorType } from "./lib/types";
-import { getItemIcon, getTotpRemainingSeconds, formatTotpCode } from "./lib/utils";
+import { listItems, getItemTotps, checkAuth } from "./lib/pass-cli";
+import { Item, NamedTotpCode, PassCliError, PassCliErrorType } from "./lib/types";
+import {
+  getItemIcon,
+  getItemKey,
+  getTotpRemainingSeconds,
+  formatTotpCode,
+  formatTotpName,
+  getTotpTimerColor,
+} from "./lib/utils";
 import { getCachedItems, setCachedItems } from "./lib/cache";
 import { renderErrorView } from "./lib/error-views";
+import { getPinnedTotpKeys, pinTotpItem, savePinnedTotpItems, unpinTotpItem } from "./lib/totp-pins";
+import { recordItemUsage } from "./lib/usage";
+
+const RETRY_INTERVAL_MS = 30_000;
 
 interface TotpItem extends Item {
-  currentTotp?: string;
+  codes?: NamedTotpCode[];
+  refreshAt?: number;
+}
+
+async function withCurrentTotp(items: Item[]): Promise<TotpItem[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      try {
+        const codes = await getItemTotps(item);
+        return { ...item, codes, refreshAt: Math.min(...codes.map((code) => code.expiresAt)) };
+      } catch {
+        return { ...item, codes: undefined, refreshAt: Date.now() + RETRY_INTERVAL_MS };
+      }
+    }),
+  );
 }
 
 export default function Command() {
   const [items, setItems] = useState<TotpItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [remainingSeconds, setRemainingSeconds] = useState(getTotpRemainingSeconds());
+  const [, setNow] = useState(Date.now());
+  const [pinnedKeys, setPinnedKeys] = useState<string[]>([]);
   const [error, setError] = useState<PassCliErrorType | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const itemsRef = useRef<TotpItem[]>([]);
+  const pendingRef = useRef(false);
 
   useEffect(() => {
     loadTotpItems();
 
     intervalRef.current = setInterval(() => {
-      const newRemaining = getTotpRemainingSeconds();
-      setRemainingSeconds(newRemaining);
+      const now = Date.now();
+      setNow(now);
 
-      if (newRemaining === 30) {
-        refreshTotpCodes();
+      const dueItems = itemsRef.current.filter((item) => item.refreshAt !== undefined && item.refreshAt <= now);
+      if (dueItems.length > 0) {
+        refreshTotpCodes(dueItems);
       }
     }, 1000);
 
@@ -38,6 +66,7 @@ export default function Command() {
 
   async function loadTotpItems() {
     setError(null);
+    setPinnedKeys(await getPinnedTotpKeys());
 
     const cachedItems = await getCachedItems();
     if (cachedItems) {
@@ -45,24 +74,11 @@ export default function Command() {
       if (cachedTotpItems.length > 0) {
         const itemsWithPlaceholder = cachedTotpItems.map((item) => ({
           ...item,
-          currentTotp: undefined,
+          codes: undefined,
         }));
         setItems(itemsWithPlaceholder);
         itemsRef.current = itemsWithPlaceholder;
         setIsLoading(false);
-
-        const itemsWithTotp = await Promise.all(
-          cachedTotpItems.map(async (item) => {
-            try {
-              const totp = await getTotp(item.shareId, item.itemId);
-              return { ...item, currentTotp: totp };
-            } catch {
-              return { ...item, currentTotp: undefined };
-            }
-          }),
-        );
-        setItems(itemsWithTotp);
-        itemsRef.current = itemsWithTotp;
       }
     }
 
@@ -75,19 +91,9 @@ export default function Command() {
       }
 
       const freshItems = await listItems();
-      await setCachedItems(freshItems);
-
-      const totpItems = freshItems.filter((item) => item.hasTotp);
-      const itemsWithTotp = await Promise.all(
-        totpItems.map(async (item) => {
-          try {
-            const totp = await getTotp(item.shareId, item.itemId);
-            return { ...item, currentTotp: totp };
-          } catch {
-            return { ...item, currentTotp: undefined };
-          }
-        }),
-      );
+      await Promise.all([setCachedItems(freshItems), savePinnedTotpItems(freshItems)]);
+
+      const itemsWithTotp = await withCurrentTotp(freshItems.filter((item) => item.hasTotp));
 
       setItems(itemsWithTotp);
       itemsRef.current = itemsWithTotp;
@@ -104,22 +110,34 @@ export default function Command() {
     }
   }
 
-  async function refreshTotpCodes() {
-    setIsRefreshing(true);
+  async function refreshTotpCodes(targets: TotpItem[] = itemsRef.current) {
+    if (pendingRef.current) return;
+
+    pendingRef.current = true;
     try {
-      const currentItems = itemsRef.current;
-      const updatedItems = await Promise.all(
-        currentItems.map(async (item) => {
-          try {
-            const totp = await getTotp(item.shareId, item.itemId);
-            return { ...item, currentTotp: totp };
-          } catch {
-            return item;
-          }
-        }),
-      );
+      const updated = new Map((await withCurrentTotp(targets)).map((item) => [getItemKey(item), item]));
+      const updatedItems = itemsRef.current.map((item) => updated.get(getItemKey(item)) ?? item);
       setItems(updatedItems);
       itemsRef.current = updatedItems;
+    } finally {
+      pendingRef.current = false;
+    }
+  }
+
+  async function handleTogglePin(item: Item, isPinned: boolean) {
+    if (isPinned) {
+      setPinnedKeys(await unpinTotpItem(item));
+      showToast({ style: Toast.Style.Success, title: "Unpinned from Menu Bar", message: item.title });
+    } else {
+      setPinnedKeys(await pinTotpItem(item));
+      showToast({ style: Toast.Style.Success, title: "Pinned to Menu Bar", message: item.title });
+    }
+  }
+
+  async function handleRefresh() {
+    setIsRefreshing(true);
+    try {
+      await refreshTotpCodes();
     } finally {
       setIsRefreshing(false);
     }
@@ -128,54 +146,76 @@ export default function Command() {
   const errorView = renderErrorView(error, loadTotpItems, "Load TOTP Items");
   if (errorView) return errorView;
 
-  async function copyTotp(totp: string, title: string) {
+  async function copyTotp(item: TotpItem, totp: string, title: string) {
     await Clipboard.copy(totp);
     showToast({ style: Toast.Style.Success, title: "TOTP Copied", message: `${title}: ${totp}` });
-  }
-
-  function getTimerColor(): Color {
-    if (remainingSeconds > 10) return Color.Green;
-    if (remainingSeconds > 5) return Color.Yellow;
-    return Color.Red;
+    await recordItemUsage(item);
   }
 
   return (
     <List isLoading={isLoading || isRefreshing} searchBarPlaceholder="Search TOTP items...">
-      <List.Section title="TOTP Codes" subtitle={isRefreshing ? "Refreshing..." : `Refreshing in ${remainingSeconds}s`}>
-        {items.map((item) => (
-          <List.Item
-            key={`${item.shareId}-${item.itemId}`}
-            icon={getItemIcon(item.type)}
-            title={item.title}
-            subtitle={item.vaultName}
-            accessories={[
-              {
-                tag: {
-                  value: item.currentTotp ? formatTotpCode(item.currentTotp) : "---",
-                  color: getTimerColor(),
-                },
-              },
-              { text: `${remainingSeconds}s`, icon: Icon.Clock },
-            ]}
-            actions={
-              <ActionPanel>
-                {item.currentTotp && (
-                  <Action
-                    title="Copy TOTP Code"
-                    icon={Icon.Clipboard}
-                    onAction={() => copyTotp(item.currentTotp!, item.title)}
-                  />
-                )}
-                <Action
-                  title="Refresh Codes"
-                  icon={Icon.ArrowClockwise}
-                  shortcut={{ modifiers: ["cmd"], key: "r" }}
-                  onAction={refreshTotpCodes}
-                />
-              </ActionPanel>
-            }
-          />
-        ))}
+      <List.Section title="TOTP Codes" subtitle={isRefreshing ? "Refreshing..." : undefined}>
+        {items.flatMap((item) => {
+          const codes: (NamedTotpCode | undefined)[] = item.codes ?? [undefined];
+          const hasMultipleCodes = codes.length > 1;
+          const isPinned = pinnedKeys.includes(getItemKey(item));
+
+          return codes.map((totp) => {
+            const remainingSeconds = totp ? getTotpRemainingSeconds(totp.period) : undefined;
+            const label = totp ? formatTotpName(totp.name) : undefined;
+
+            return (
+              <List.Item
+                key={`${getItemKey(item)}-${totp?.name ?? "pending"}`}
+                icon={getItemIcon(item.type)}
+                title={item.title}
+                subtitle={item.vaultName}
+                keywords={label ? [label] : undefined}
+                accessories={[
+                  isPinned ? { icon: Icon.Pin, tooltip: "Pinned to Menu Bar" } : null,
+                  hasMultipleCodes && label ? { tag: label, icon: Icon.Key } : null,
+                  {
+                    tag: {
+                      value: totp ? formatTotpCode(totp.code) : "---",
+                      color:
+                        totp && remainingSeconds
+                          ? getTotpTimerColor(remainingSeconds, totp.period)
+                          : Color.SecondaryText,
+                    },
+                  },
+                  remainingSeconds !== undefined
+                    ? { text: `${remainingSeconds}s`, icon: Icon.Clock, tooltip: `Refreshes every ${totp?.period}s` }
+                    : null,
+                ].filter((a): a is NonNullable<typeof a> => a !== null)}
+                actions={
+                  <ActionPanel>
+                    {totp && (
+                      <Action
+                        title="Copy TOTP Code"
+                        icon={Icon.Clipboard}
+                        onAction={() =>
+                          copyTotp(item, totp.code, hasMultipleCodes ? `${item.title} (${label})` : item.title)
+                        }
+                      />
+                    )}
+                    <Action
+                      title={isPinned ? "Unpin from Menu Bar" : "Pin to Menu Bar"}
+                      icon={isPinned ? Icon.PinDisabled : Icon.Pin}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                      onAction={() => handleTogglePin(item, isPinned)}
+                    />
+                    <Action
+                      title="Refresh Codes"
+                      icon={Icon.ArrowClockwise}
+                      shortcut={{ modifiers: ["cmd"], key: "r" }}
+                      onAction={handleRefresh}
+                    />
+                  </ActionPanel>
+                }
+              />
+            );
+          });
+        })}
       </List.Section>
       {items.length === 0 && !isLoading && !error && (
         <List.EmptyView icon={Icon.Clock} title="No TOTP Items" description="None of your items have TOTP configured" />
@@ -1,26 +1,28 @@
 import { LocalStorage } from "@raycast/api";
-import { Item, Vault } from "./types";
+import { Item, PasswordHealthReport, Vault } from "./types";
 
 const ITEMS_CACHE_KEY = "proton_pass_items_cache";
 const VAULTS_CACHE_KEY = "proton_pass_vaults_cache";
+const HEALTH_CACHE_KEY = "proton_pass_password_health_cache";
 const CACHE_TTL_MS = 5 * 60 * 1000;
+const HEALTH_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 interface CachedData<T> {
   data: T;
   timestamp: number;
 }
 
-function isCacheValid<T>(cached: CachedData<T>): boolean {
-  return Date.now() - cached.timestamp < CACHE_TTL_MS;
+function isCacheValid<T>(cached: CachedData<T>, ttlMs = CACHE_TTL_MS): boolean {
+  return Date.now() - cached.timestamp < ttlMs;
 }
 
-async function getCache<T>(key: string): Promise<T | null> {
+async function getCache<T>(key: string, ttlMs?: number): Promise<T | null> {
   try {
     const raw = await LocalStorage.getItem<string>(key);
     if (!raw) return null;
 
     const cached: CachedData<T> = JSON.parse(raw);
-    if (!isCacheValid(cached)) return null;
+    if (!isCacheValid(cached, ttlMs)) return null;
 
     return cached.data;
   } catch {
@@ -33,12 +35,97 @@ async function setCache<T>(key: string, data: T): Promise<void> {
   await LocalStorage.setItem(key, JSON.stringify(cached));
 }
 
+async function updateCache<T>(key: string, update: (data: T) => T): Promise<void> {
+  try {
+    const raw = await LocalStorage.getItem<string>(key);
+    if (!raw) return;
+
+    const cached: CachedData<T> = JSON.parse(raw);
+    if (!isCacheValid(cached)) return;
+
+    const next: CachedData<T> = { data: update(cached.data), timestamp: cached.timestamp };
+    await LocalStorage.setItem(key, JSON.stringify(next));
+  } catch {
+    await LocalStorage.removeItem(key);
+  }
+}
+
+function withoutSecrets(item: Item): Item {
+  return { ...item, totpUri: undefined, totpFields: undefined };
+}
+
 export const getCachedItems = () => getCache<Item[]>(ITEMS_CACHE_KEY);
-export const setCachedItems = (items: Item[]) => setCache(ITEMS_CACHE_KEY, items);
+export const setCachedItems = (items: Item[]) => setCache(ITEMS_CACHE_KEY, items.map(withoutSecrets));
 
 export const getCachedVaults = () => getCache<Vault[]>(VAULTS_CACHE_KEY);
 export const setCachedVaults = (vaults: Vault[]) => setCache(VAULTS_CACHE_KEY, vaults);
 
+export const getCachedHealthReport = () => getCache<PasswordHealthReport>(HEALTH_CACHE_KEY, HEALTH_CACHE_TTL_MS);
+export const setCachedHealthReport = (report: PasswordHealthReport) =>
+  setCache(HEALTH_CACHE_KEY, {
+    ...report,
+    entries: report.entries.map((entry) => ({ ...entry, item: withoutSecrets(entry.item) })),
+  });
+
+export async function upsertCachedItem(item: Item): Promise<void> {
+  await updateCache<Item[]>(ITEMS_CACHE_KEY, (items) => {
+    const cached = withoutSecrets(item);
+    const index = items.findIndex((i) => i.shareId === item.shareId && i.itemId === item.itemId);
+    if (index === -1) return [...items, cached];
+    return items.map((i, idx) => (idx === index ? cached : i));
+  });
+}
+
+export async function removeCachedItem(shareId: string, itemId: string): Promise<void> {
+  await updateCache<Item[]>(ITEMS_CACHE_KEY, (items) =>
+    items.filter((i) => !(i.shareId === shareId && i.itemId === itemId)),
+  );
+}
+
+export async function adjustCachedVaultItemCount(shareId: string, delta: number): Promise<void> {
+  await updateCache<Vault[]>(VAULTS_CACHE_KEY, (vaults) =>
+    vaults.map((v) => (v.shareId === shareId ? { ...v, itemCount: Math.max(0, v.itemCount + delta) } : v)),
+  );
+}
+
+export async function moveCachedItem(from: Item, to: Item): Promise<void> {
+  await updateCache<Item[]>(ITEMS_CACHE_KEY, (items) => [
+    ...items.filter(
+      (i) =>
+        !(i.shareId === from.shareId && i.itemId === from.itemId) &&
+        !(i.shareId === to.shareId && i.itemId === to.itemId),
+    ),
+    withoutSecrets(to),
+  ]);
+  await updateCache<Vault[]>(VAULTS_CACHE_KEY, (vaults) =>
+    vaults.map((v) => {
+      const delta = (v.shareId === to.shareId ? 1 : 0) - (v.shareId === from.shareId ? 1 : 0);
+      return delta === 0 ? v : { ...v, itemCount: Math.max(0, v.itemCount + delta) };
+    }),
+  );
+}
+
+export async function upsertCachedVault(vault: Vault): Promise<void> {
+  await updateCache<Vault[]>(VAULTS_CACHE_KEY, (vaults) => {
+    const exists = vaults.some((v) => v.shareId === vault.shareId);
+    return exists ? vaults.map((v) => (v.shareId === vault.shareId ? vault : v)) : [...vaults, vault];
+  });
+  await updateCache<Item[]>(ITEMS_CACHE_KEY, (items) =>
+    items.map((i) => (i.shareId === vault.shareId ? { ...i, vaultName: vault.name } : i)),
+  );
+}
+
+export async function removeCachedVault(shareId: string): Promise<void> {
+  await Promise.all([
+    updateCache<Vault[]>(VAULTS_CACHE_KEY, (vaults) => vaults.filter((v) => v.shareId !== shareId)),
+    updateCache<Item[]>(ITEMS_CACHE_KEY, (items) => items.filter((i) => i.shareId !== shareId)),
+  ]);
+}
+
 export async function clearCache(): Promise<void> {
-  await Promise.all([LocalStorage.removeItem(ITEMS_CACHE_KEY), LocalStorage.removeItem(VAULTS_CACHE_KEY)]);
+  await Promise.all([
+    LocalStorage.removeItem(ITEMS_CACHE_KEY),
+    LocalStorage.removeItem(VAULTS_CACHE_KEY),
+    LocalStorage.removeItem(HEALTH_CACHE_KEY),
+  ]);
 }
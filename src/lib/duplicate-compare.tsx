@@ -0,0 +1,109 @@
+import { ActionPanel, Action, Icon, Detail, Color, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { getItem } from "./pass-cli";
+import { Item, ItemDetail } from "./types";
+import { DuplicateGroup } from "./duplicates";
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function formatList(values: string[] | undefined): string {
+  return values && values.length > 0 ? values.map(escapeCell).join("<br>") : "—";
+}
+
+function buildComparisonTable(details: ItemDetail[]): string {
+  const passwords = details.map((detail) => (detail.type === "login" ? detail.password : undefined));
+  const rows: [string, (detail: ItemDetail, index: number) => string][] = [
+    ["Vault", (detail) => escapeCell(detail.vaultName)],
+    ["Username", (detail) => escapeCell(detail.username ?? "—")],
+    ["Email", (detail) => escapeCell(detail.email ?? "—")],
+    [
+      "Password",
+      (_, index) => {
+        if (!passwords[index]) return "—";
+        return passwords[index] === passwords[0] ? "Same as first" : "**Different**";
+      },
+    ],
+    ["URLs", (detail) => formatList(detail.urls)],
+    [
+      "2FA",
+      (detail) => {
+        if (!detail.totpUri) return detail.hasTotp ? "Enabled" : "—";
+        return !details[0].totpUri || detail.totpUri === details[0].totpUri ? "Enabled" : "**Different**";
+      },
+    ],
+    ["Custom Fields", (detail) => formatList(detail.customFields?.map((field) => field.name))],
+    ["Note", (detail) => (detail.note ? escapeCell(detail.note) : "—")],
+    ["Modified", (detail) => (detail.modifiedAt ? new Date(detail.modifiedAt).toLocaleDateString() : "—")],
+  ];
+
+  const header = `| | ${details.map((detail) => `**${escapeCell(detail.title)}**`).join(" | ")} |`;
+  const divider = `|---|${details.map(() => "---").join("|")}|`;
+  const body = rows.map(([label, render]) => `| **${label}** | ${details.map(render).join(" | ")} |`);
+  return [header, divider, ...body].join("\n");
+}
+
+interface DuplicateCompareViewProps {
+  group: DuplicateGroup;
+  canMerge: boolean;
+  onMerge: (keep: Item, others: Item[]) => Promise<boolean>;
+}
+
+export function DuplicateCompareView({ group, canMerge, onMerge }: DuplicateCompareViewProps) {
+  const [details, setDetails] = useState<ItemDetail[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { pop } = useNavigation();
+
+  useEffect(() => {
+    loadDetails();
+  }, []);
+
+  async function loadDetails() {
+    try {
+      setDetails(await Promise.all(group.items.map((item) => getItem(item.shareId, item.itemId))));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred";
+      showToast({ style: Toast.Style.Failure, title: "Failed to load item details", message });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleMerge(keep: Item) {
+    const merged = await onMerge(
+      keep,
+      group.items.filter((item) => item !== keep),
+    );
+    if (merged) pop();
+  }
+
+  const markdown =
+    details.length > 0
+      ? `# Possible Duplicates\n\nMatched on ${group.reasons.join(", ")}\n\n${buildComparisonTable(details)}`
+      : "";
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      navigationTitle="Compare Duplicates"
+      actions={
+        canMerge && (
+          <ActionPanel>
+            <ActionPanel.Section title="Merge">
+              {group.items.map((item) => (
+                <Action
+                  key={`${item.shareId}-${item.itemId}`}
+                  title={`Keep "${item.title}" in ${item.vaultName}`}
+                  icon={{ source: Icon.Checkmark, tintColor: Color.Green }}
+                  onAction={() => handleMerge(item)}
+                />
+              ))}
+            </ActionPanel.Section>
+          </ActionPanel>
+        )
+      }
+    />
+  );
+}
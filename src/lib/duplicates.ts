@@ -0,0 +1,183 @@
+import { getItem, trashItem, updateItem } from "./pass-cli";
+import { CustomField, Item, ItemDetail, LoginItemDetail, LoginItemInput, PassCliError } from "./types";
+import { getUrlHost } from "./utils";
+
+const TITLE_SIMILARITY_THRESHOLD = 0.8;
+
+export interface DuplicateGroup {
+  id: string;
+  items: Item[];
+  reasons: string[];
+}
+
+function getHosts(item: Item): Set<string> {
+  return new Set((item.urls ?? []).map(getUrlHost).filter((host): host is string => host !== undefined));
+}
+
+function getAccount(item: Item): string {
+  return (item.username ?? item.email ?? "").trim().toLowerCase();
+}
+
+function getBigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return Array.from({ length: Math.max(normalized.length - 1, 0) }, (_, i) => normalized.slice(i, i + 2));
+}
+
+export function getTitleSimilarity(a: string, b: string): number {
+  const first = getBigrams(a);
+  const second = getBigrams(b);
+  if (first.length === 0 || second.length === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+
+  const remaining = [...second];
+  let matches = 0;
+  for (const bigram of first) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * matches) / (first.length + second.length);
+}
+
+function getMatchReason(a: Item, b: Item, hostsA: Set<string>, hostsB: Set<string>): string | undefined {
+  const sharedHost = [...hostsA].find((host) => hostsB.has(host));
+  if (sharedHost) return sharedHost;
+  if (getTitleSimilarity(a.title, b.title) >= TITLE_SIMILARITY_THRESHOLD) return `"${a.title}"`;
+  return undefined;
+}
+
+export function findDuplicateGroups(items: Item[]): DuplicateGroup[] {
+  const logins = items.filter((item) => item.type === "login" && getAccount(item).length > 0);
+  const hosts = logins.map(getHosts);
+  const grouped = new Set<number>();
+  const groups: DuplicateGroup[] = [];
+
+  for (let i = 0; i < logins.length; i++) {
+    if (grouped.has(i)) continue;
+
+    // Every member must match every other member, so unrelated items can't be chained into one group.
+    const members = [i];
+    const reasons = new Set<string>();
+    for (let j = i + 1; j < logins.length; j++) {
+      if (grouped.has(j)) continue;
+
+      const matches = members.map((member) =>
+        getAccount(logins[member]) === getAccount(logins[j])
+          ? getMatchReason(logins[member], logins[j], hosts[member], hosts[j])
+          : undefined,
+      );
+      if (matches.some((reason) => reason === undefined)) continue;
+
+      members.push(j);
+      matches.forEach((reason) => reasons.add(reason as string));
+    }
+
+    if (members.length < 2) continue;
+    members.forEach((member) => grouped.add(member));
+    const group = members.map((member) => logins[member]);
+    groups.push({ id: group.map((item) => item.itemId).join("-"), items: group, reasons: [...reasons] });
+  }
+
+  return groups;
+}
+
+function mergeUrls(details: ItemDetail[]): string[] {
+  const seen = new Set<string>();
+  return details
+    .flatMap((detail) => detail.urls ?? [])
+    .filter((url) => {
+      const key = url.trim().replace(/\/+$/, "").toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function mergeCustomFields(keep: ItemDetail, others: ItemDetail[]): CustomField[] {
+  const fields = [...(keep.customFields ?? [])];
+  for (const other of others) {
+    for (const field of other.customFields ?? []) {
+      if (fields.some((f) => f.name === field.name && f.value === field.value)) continue;
+      const name = fields.some((f) => f.name === field.name) ? `${field.name} (${other.title})` : field.name;
+      fields.push({ ...field, name });
+    }
+  }
+  return fields;
+}
+
+function mergeNotes(details: ItemDetail[]): string | undefined {
+  const notes = [...new Set(details.map((detail) => detail.note?.trim()).filter((note): note is string => !!note))];
+  return notes.length > 0 ? notes.join("\n\n") : undefined;
+}
+
+function pickValue(values: (string | undefined)[]): { value?: string; differs: boolean } {
+  const present = values.filter((value): value is string => !!value);
+  return { value: present[0], differs: new Set(present).size > 1 };
+}
+
+export interface MergePlan {
+  keep: LoginItemDetail;
+  others: ItemDetail[];
+  conflicts: string[];
+}
+
+export interface MergeResult {
+  updated: ItemDetail;
+  trashed: Item[];
+  failed: Item[];
+}
+
+export async function planMerge(keep: Item, others: Item[]): Promise<MergePlan> {
+  const keepDetail = await getItem(keep.shareId, keep.itemId);
+  if (keepDetail.type !== "login") {
+    throw new PassCliError("Only login items can be merged.", "unknown");
+  }
+  const otherDetails = await Promise.all(others.map((item) => getItem(item.shareId, item.itemId)));
+  const details = [keepDetail, ...otherDetails];
+
+  const fields: [string, (detail: ItemDetail) => string | undefined][] = [
+    ["password", (detail) => (detail.type === "login" ? detail.password : undefined)],
+    ["username", (detail) => detail.username],
+    ["email", (detail) => detail.email],
+    ["2FA secret", (detail) => detail.totpUri],
+  ];
+  const conflicts = fields.flatMap(([label, getValue]) => {
+    const { value, differs } = pickValue(details.map(getValue));
+    if (!differs) return [];
+    const source = details.find((detail) => getValue(detail) === value);
+    return [`The ${label}s differ. Only the ${label} of "${source?.title}" (${source?.vaultName}) will be kept.`];
+  });
+
+  return { keep: keepDetail, others: otherDetails, conflicts };
+}
+
+export async function mergeDuplicates({ keep, others }: MergePlan): Promise<MergeResult> {
+  const details = [keep, ...others];
+  const input: LoginItemInput = {
+    title: keep.title,
+    username: pickValue(details.map((detail) => detail.username)).value,
+    email: pickValue(details.map((detail) => detail.email)).value,
+    password: pickValue(details.map((detail) => (detail.type === "login" ? detail.password : undefined))).value,
+    urls: mergeUrls(details),
+    note: mergeNotes(details),
+    totpUri: pickValue(details.map((detail) => detail.totpUri)).value,
+    customFields: mergeCustomFields(keep, others),
+  };
+
+  const updated = await updateItem(keep, input);
+
+  const trashed: Item[] = [];
+  const failed: Item[] = [];
+  for (const item of others) {
+    try {
+      await trashItem(item);
+      trashed.push(item);
+    } catch {
+      failed.push(item);
+    }
+  }
+  return { updated, trashed, failed };
+}
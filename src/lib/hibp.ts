@@ -0,0 +1,102 @@
+import { getPreferenceValues } from "@raycast/api";
+import { createHash } from "crypto";
+import { FileHandle, open, readFile, stat } from "fs/promises";
+import { join } from "path";
+import { Preferences } from "./types";
+
+const RANGE_PREFIX_LENGTH = 5;
+const LINE_READ_BYTES = 256;
+
+interface HashLine {
+  hash: string;
+  count: number;
+  end: number;
+}
+
+export function getBreachFilePath(): string | undefined {
+  const { breachFilePath } = getPreferenceValues<Preferences>();
+  const trimmed = breachFilePath?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function sha1(password: string): string {
+  return createHash("sha1").update(password).digest("hex").toUpperCase();
+}
+
+function parseHashLine(line: string): { hash: string; count: number } {
+  const [hash, count] = line.trim().split(":");
+  return { hash: hash.toUpperCase(), count: Number(count) || 0 };
+}
+
+async function readLineAt(handle: FileHandle, offset: number): Promise<HashLine | undefined> {
+  const readFrom = Math.max(0, offset - 1);
+  const buffer = Buffer.alloc(LINE_READ_BYTES);
+  const { bytesRead } = await handle.read(buffer, 0, LINE_READ_BYTES, readFrom);
+  const text = buffer.toString("latin1", 0, bytesRead);
+
+  const start = offset === 0 ? 0 : text.indexOf("\n") + 1;
+  if (offset > 0 && start === 0) return undefined;
+
+  const newline = text.indexOf("\n", start);
+  const line = newline === -1 ? text.slice(start) : text.slice(start, newline);
+  if (line.trim().length === 0) return undefined;
+
+  const end = readFrom + (newline === -1 ? bytesRead : newline + 1);
+  return { ...parseHashLine(line), end };
+}
+
+async function searchOrderedFile(path: string, hash: string): Promise<number> {
+  const { size } = await stat(path);
+  const handle = await open(path, "r");
+
+  try {
+    let low = 0;
+    let high = size;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const line = await readLineAt(handle, mid);
+      if (!line || line.hash > hash) {
+        high = mid;
+      } else if (line.hash < hash) {
+        low = line.end;
+      } else {
+        return line.count;
+      }
+    }
+    return 0;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function searchRangeDirectory(directory: string, hash: string): Promise<number> {
+  const prefix = hash.slice(0, RANGE_PREFIX_LENGTH);
+  const suffix = hash.slice(RANGE_PREFIX_LENGTH);
+
+  let contents: string;
+  try {
+    contents = await readFile(join(directory, `${prefix}.txt`), "latin1");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Range file ${prefix}.txt is missing from ${directory}.`);
+    }
+    throw error;
+  }
+
+  const match = contents
+    .split("\n")
+    .map(parseHashLine)
+    .find((line) => line.hash === suffix);
+  return match?.count ?? 0;
+}
+
+export async function getBreachCount(password: string, path = getBreachFilePath()): Promise<number | undefined> {
+  if (!path) return undefined;
+
+  const hash = sha1(password);
+  const info = await stat(path).catch(() => {
+    throw new Error(`Breached password file not found at '${path}'.`);
+  });
+
+  return info.isDirectory() ? searchRangeDirectory(path, hash) : searchOrderedFile(path, hash);
+}
@@ -0,0 +1,218 @@
+import { List, ActionPanel, Action, Icon, showToast, Toast, useNavigation, Clipboard } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { listVaults, trashItem, moveItem, duplicateItem, getItemTotps } from "./pass-cli";
+import { Item, PassCliError, Vault } from "./types";
+import { canWriteToVault, formatTotpCode } from "./utils";
+import {
+  getCachedVaults,
+  setCachedVaults,
+  upsertCachedItem,
+  removeCachedItem,
+  adjustCachedVaultItemCount,
+  moveCachedItem,
+} from "./cache";
+import { recordItemUsage } from "./usage";
+
+export function TrashItemAction({ item, onTrashed }: { item: Item; onTrashed?: (item: Item) => void }) {
+  async function handleTrash() {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Moving to trash..." });
+    try {
+      await trashItem(item);
+      await Promise.all([removeCachedItem(item.shareId, item.itemId), adjustCachedVaultItemCount(item.shareId, -1)]);
+      onTrashed?.(item);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Moved to Trash";
+      toast.message = item.title;
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to move item to trash";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  return (
+    <Action
+      title="Move to Trash"
+      icon={Icon.Trash}
+      style={Action.Style.Destructive}
+      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+      onAction={handleTrash}
+    />
+  );
+}
+
+export function CopyTotpActions({ item, onCopied }: { item: Item; onCopied?: () => void }) {
+  const fieldNames = (item.totpFields ?? []).map((field) => field.name);
+  const names: (string | undefined)[] =
+    item.totpUri || fieldNames.length === 0 ? [undefined, ...fieldNames] : fieldNames;
+
+  async function handleCopy(name?: string) {
+    try {
+      const codes = await getItemTotps(item);
+      const totp = name ? codes.find((code) => code.name === name) : codes[0];
+      if (!totp) {
+        throw new PassCliError(`No TOTP field named "${name}" found.`, "invalid_output");
+      }
+
+      await Clipboard.copy(totp.code);
+      showToast({
+        style: Toast.Style.Success,
+        title: name ? `${name} TOTP Copied` : "TOTP Copied",
+        message: formatTotpCode(totp.code),
+      });
+      await recordItemUsage(item);
+      onCopied?.();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred";
+      showToast({ style: Toast.Style.Failure, title: "Failed to get TOTP", message });
+    }
+  }
+
+  return (
+    <>
+      {names.map((name, index) => (
+        <Action
+          key={name ?? "default"}
+          title={name ? `Copy TOTP Code: ${name}` : "Copy TOTP Code"}
+          icon={Icon.Clock}
+          shortcut={index === 0 ? { modifiers: ["cmd"], key: "t" } : undefined}
+          onAction={() => handleCopy(name)}
+        />
+      ))}
+    </>
+  );
+}
+
+interface VaultPickerProps {
+  navigationTitle: string;
+  excludeShareId?: string;
+  onSelect: (vault: Vault) => Promise<boolean>;
+}
+
+function VaultPicker({ navigationTitle, excludeShareId, onSelect }: VaultPickerProps) {
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { pop } = useNavigation();
+
+  useEffect(() => {
+    loadVaults();
+  }, []);
+
+  async function loadVaults() {
+    const cachedVaults = await getCachedVaults();
+    if (cachedVaults) {
+      setVaults(cachedVaults);
+      setIsLoading(false);
+    }
+
+    try {
+      const freshVaults = await listVaults();
+      setVaults(freshVaults);
+      await setCachedVaults(freshVaults);
+    } catch (error: unknown) {
+      if (!cachedVaults) {
+        const message = error instanceof Error ? error.message : "An unknown error occurred";
+        await showToast({ style: Toast.Style.Failure, title: "Failed to load vaults", message });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const targets = vaults.filter((vault) => vault.shareId !== excludeShareId && canWriteToVault(vault.role));
+
+  return (
+    <List isLoading={isLoading} navigationTitle={navigationTitle} searchBarPlaceholder="Search vaults...">
+      {targets.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Folder}
+          title="No Writable Vaults"
+          description="You need editor access or higher to another vault"
+        />
+      ) : (
+        targets.map((vault) => (
+          <List.Item
+            key={vault.shareId}
+            icon={Icon.Folder}
+            title={vault.name}
+            accessories={[{ text: `${vault.itemCount} ${vault.itemCount === 1 ? "item" : "items"}` }]}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Select Vault"
+                  icon={Icon.Checkmark}
+                  onAction={async () => {
+                    if (await onSelect(vault)) pop();
+                  }}
+                />
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}
+
+export function MoveToVaultAction({ item, onMoved }: { item: Item; onMoved?: (from: Item, to: Item) => void }) {
+  async function handleMove(target: Vault): Promise<boolean> {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Moving to ${target.name}...` });
+    try {
+      const moved = await moveItem(item, target);
+      await moveCachedItem(item, moved);
+      onMoved?.(item, moved);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Item Moved";
+      toast.message = `${item.title} → ${target.name}`;
+      return true;
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to move item";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+      return false;
+    }
+  }
+
+  return (
+    <Action.Push
+      title="Move to Vault…"
+      icon={Icon.ArrowRight}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+      target={
+        <VaultPicker navigationTitle={`Move ${item.title}`} excludeShareId={item.shareId} onSelect={handleMove} />
+      }
+    />
+  );
+}
+
+export function DuplicateToVaultAction({ item, onDuplicated }: { item: Item; onDuplicated?: (copy: Item) => void }) {
+  async function handleDuplicate(target: Vault): Promise<boolean> {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Duplicating to ${target.name}...` });
+    try {
+      const copy = await duplicateItem(item, target);
+      await Promise.all([upsertCachedItem(copy), adjustCachedVaultItemCount(target.shareId, 1)]);
+      onDuplicated?.(copy);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Item Duplicated";
+      toast.message = `${item.title} → ${target.name}`;
+      return true;
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to duplicate item";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+      return false;
+    }
+  }
+
+  return (
+    <Action.Push
+      title="Duplicate to Vault…"
+      icon={Icon.CopyClipboard}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+      target={<VaultPicker navigationTitle={`Duplicate ${item.title}`} onSelect={handleDuplicate} />}
+    />
+  );
+}
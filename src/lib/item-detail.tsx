@@ -0,0 +1,696 @@
+import {
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  showToast,
+  Toast,
+  Clipboard,
+  getPreferenceValues,
+  Detail,
+} from "@raycast/api";
+import { JSX, useState, useEffect } from "react";
+import { getItem, getItemRaw } from "./pass-cli";
+import {
+  AliasItemDetail,
+  CreditCardItemDetail,
+  IdentityDetails,
+  IdentityItemDetail,
+  Item,
+  ItemDetail,
+  LoginItemDetail,
+  NoteItemDetail,
+  Preferences,
+  SshKeyItemDetail,
+  VaultRole,
+  WifiItemDetail,
+} from "./types";
+import {
+  assertNever,
+  getItemIcon,
+  maskPassword,
+  maskCardNumber,
+  formatCardExpiry,
+  formatIdentityName,
+  formatIdentityAddress,
+  canWriteToVault,
+  toItem,
+  formatBreachCount,
+} from "./utils";
+import { EditItemForm } from "./item-form";
+import { CopyTotpActions } from "./item-actions";
+import { addKeyToAgent, parsePublicKey } from "./ssh";
+import { generateWifiQrCode } from "./wifi";
+import { PasswordStrengthDetail } from "./password-strength-detail";
+import { getBreachCount } from "./hibp";
+import { recordItemUsage } from "./usage";
+
+type CopySecret = (value: string, title: string) => Promise<void>;
+
+interface TypeSection {
+  markdown: string[];
+  metadata: JSX.Element | null;
+  actions: JSX.Element | null;
+}
+
+interface IdentityField {
+  key: keyof IdentityDetails;
+  label: string;
+  secret?: boolean;
+}
+
+const IDENTITY_SECTIONS: { title: string; fields: IdentityField[] }[] = [
+  {
+    title: "Personal",
+    fields: [
+      { key: "firstName", label: "First Name" },
+      { key: "middleName", label: "Middle Name" },
+      { key: "lastName", label: "Last Name" },
+      { key: "birthdate", label: "Birthdate" },
+      { key: "gender", label: "Gender" },
+    ],
+  },
+  {
+    title: "Contact",
+    fields: [
+      { key: "email", label: "Email" },
+      { key: "phoneNumber", label: "Phone" },
+      { key: "secondPhoneNumber", label: "Second Phone" },
+      { key: "website", label: "Website" },
+    ],
+  },
+  {
+    title: "Work",
+    fields: [
+      { key: "company", label: "Company" },
+      { key: "jobTitle", label: "Job Title" },
+      { key: "workEmail", label: "Work Email" },
+      { key: "workPhoneNumber", label: "Work Phone" },
+    ],
+  },
+  {
+    title: "Documents",
+    fields: [
+      { key: "passportNumber", label: "Passport Number" },
+      { key: "licenseNumber", label: "Licence Number" },
+      { key: "socialSecurityNumber", label: "Social Security Number", secret: true },
+    ],
+  },
+];
+
+function getLoginSection(detail: LoginItemDetail, copySecret: CopySecret): TypeSection {
+  const markdown: string[] = [];
+  if (detail.username) markdown.push(`**Username:** ${detail.username}`);
+  if (detail.email) markdown.push(`**Email:** ${detail.email}`);
+  if (detail.password) markdown.push(`**Password:** ${maskPassword(detail.password)}`);
+  if (detail.urls && detail.urls.length > 0) {
+    markdown.push(`\n**URLs:**`);
+    detail.urls.forEach((url) => markdown.push(`- ${url}`));
+  }
+
+  return {
+    markdown,
+    metadata: (
+      <>
+        {detail.username && <Detail.Metadata.Label title="Username" text={detail.username} />}
+        {detail.email && <Detail.Metadata.Label title="Email" text={detail.email} />}
+      </>
+    ),
+    actions: (
+      <>
+        <ActionPanel.Section title="Copy">
+          {detail.password && (
+            <Action
+              title="Copy Password"
+              icon={Icon.Key}
+              shortcut={{ modifiers: ["cmd"], key: "c" }}
+              onAction={() => copySecret(detail.password!, "Password Copied")}
+            />
+          )}
+          {detail.username && (
+            <Action.CopyToClipboard
+              title="Copy Username"
+              content={detail.username}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+              onCopy={() => recordItemUsage(detail)}
+            />
+          )}
+          {detail.email && (
+            <Action.CopyToClipboard
+              title="Copy Email"
+              content={detail.email}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+              onCopy={() => recordItemUsage(detail)}
+            />
+          )}
+          {detail.urls && detail.urls.length > 0 && (
+            <Action.CopyToClipboard
+              title="Copy First URL"
+              content={detail.urls[0]}
+              shortcut={{ modifiers: ["cmd"], key: "u" }}
+            />
+          )}
+        </ActionPanel.Section>
+        {detail.password && (
+          <ActionPanel.Section title="Security">
+            <Action.Push
+              title="Show Password Strength"
+              icon={Icon.Gauge}
+              shortcut={{ modifiers: ["cmd"], key: "i" }}
+              target={
+                <PasswordStrengthDetail
+                  password={detail.password}
+                  navigationTitle={`${detail.title} Password Strength`}
+                />
+              }
+            />
+          </ActionPanel.Section>
+        )}
+        {detail.urls && detail.urls.length > 1 && (
+          <ActionPanel.Section title="URLs">
+            {detail.urls.map((url, index) => (
+              <Action.OpenInBrowser key={index} title={`Open ${url}`} url={url} />
+            ))}
+          </ActionPanel.Section>
+        )}
+      </>
+    ),
+  };
+}
+
+function getNoteSection(detail: NoteItemDetail): TypeSection {
+  return {
+    markdown: [],
+    metadata: null,
+    actions: detail.note ? (
+      <ActionPanel.Section title="Copy">
+        <Action.CopyToClipboard title="Copy Note" content={detail.note} shortcut={{ modifiers: ["cmd"], key: "c" }} />
+      </ActionPanel.Section>
+    ) : null,
+  };
+}
+
+function getCreditCardSection(detail: CreditCardItemDetail, copySecret: CopySecret): TypeSection {
+  const card = detail.creditCard;
+  const markdown: string[] = [];
+  if (card.cardholderName) markdown.push(`**Cardholder:** ${card.cardholderName}`);
+  if (card.cardType) markdown.push(`**Card Type:** ${card.cardType}`);
+  if (card.number) markdown.push(`**Card Number:** ${maskCardNumber(card.number)}`);
+  if (card.expirationDate) markdown.push(`**Expires:** ${formatCardExpiry(card.expirationDate)}`);
+  if (card.verificationNumber) markdown.push(`**CVV:** ${maskPassword(card.verificationNumber)}`);
+  if (card.pin) markdown.push(`**PIN:** ${maskPassword(card.pin)}`);
+
+  return {
+    markdown,
+    metadata: (
+      <>
+        {card.cardholderName && <Detail.Metadata.Label title="Cardholder" text={card.cardholderName} />}
+        {card.number && <Detail.Metadata.Label title="Card Number" text={maskCardNumber(card.number)} />}
+        {card.expirationDate && <Detail.Metadata.Label title="Expires" text={formatCardExpiry(card.expirationDate)} />}
+      </>
+    ),
+    actions: (
+      <ActionPanel.Section title="Card">
+        {card.number && (
+          <Action
+            title="Copy Card Number"
+            icon={Icon.CreditCard}
+            shortcut={{ modifiers: ["cmd"], key: "c" }}
+            onAction={() => copySecret(card.number!, "Card Number Copied")}
+          />
+        )}
+        {card.expirationDate && (
+          <Action.CopyToClipboard
+            title="Copy Expiry"
+            content={formatCardExpiry(card.expirationDate)}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+        )}
+        {card.verificationNumber && (
+          <Action
+            title="Copy CVV"
+            icon={Icon.Lock}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+            onAction={() => copySecret(card.verificationNumber!, "CVV Copied")}
+          />
+        )}
+        {card.cardholderName && <Action.CopyToClipboard title="Copy Cardholder Name" content={card.cardholderName} />}
+        {card.pin && <Action title="Copy PIN" icon={Icon.Lock} onAction={() => copySecret(card.pin!, "PIN Copied")} />}
+      </ActionPanel.Section>
+    ),
+  };
+}
+
+function getIdentitySection(detail: IdentityItemDetail, copySecret: CopySecret): TypeSection {
+  const identity = detail.identity;
+  const name = formatIdentityName(identity);
+  const address = formatIdentityAddress(identity);
+
+  const markdown: string[] = [];
+  if (name) markdown.push(`**Name:** ${name}`);
+
+  IDENTITY_SECTIONS.forEach((section) => {
+    const fields = section.fields.filter((field) => identity[field.key]);
+    if (fields.length === 0) return;
+    markdown.push(`\n### ${section.title}`);
+    fields.forEach((field) => {
+      const value = identity[field.key]!;
+      markdown.push(`**${field.label}:** ${field.secret ? maskPassword(value) : value}  `);
+    });
+  });
+
+  if (address) {
+    markdown.push(`\n### Address`);
+    markdown.push(address.split("\n").join("  \n"));
+  }
+
+  return {
+    markdown,
+    metadata: (
+      <>
+        {name && <Detail.Metadata.Label title="Name" text={name} />}
+        {identity.email && <Detail.Metadata.Label title="Email" text={identity.email} />}
+        {identity.phoneNumber && <Detail.Metadata.Label title="Phone" text={identity.phoneNumber} />}
+      </>
+    ),
+    actions: (
+      <ActionPanel.Section title="Identity">
+        {name && (
+          <Action.CopyToClipboard
+            title="Copy Full Name"
+            content={name}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+        )}
+        {address && (
+          <Action.CopyToClipboard
+            title="Copy Full Address"
+            content={address}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+          />
+        )}
+        {identity.phoneNumber && (
+          <Action.CopyToClipboard
+            title="Copy Phone"
+            content={identity.phoneNumber}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+          />
+        )}
+        {identity.email && (
+          <Action.CopyToClipboard
+            title="Copy Email"
+            content={identity.email}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+          />
+        )}
+        {identity.company && <Action.CopyToClipboard title="Copy Company" content={identity.company} />}
+        {identity.passportNumber && (
+          <Action.CopyToClipboard title="Copy Passport Number" content={identity.passportNumber} />
+        )}
+        {identity.licenseNumber && (
+          <Action.CopyToClipboard title="Copy Licence Number" content={identity.licenseNumber} />
+        )}
+        {identity.socialSecurityNumber && (
+          <Action
+            title="Copy Social Security Number"
+            icon={Icon.Lock}
+            onAction={() => copySecret(identity.socialSecurityNumber!, "Social Security Number Copied")}
+          />
+        )}
+      </ActionPanel.Section>
+    ),
+  };
+}
+
+function getAliasSection(detail: AliasItemDetail): TypeSection {
+  return {
+    markdown: detail.aliasEmail ? [`**Alias:** ${detail.aliasEmail}`] : [],
+    metadata: detail.aliasEmail ? <Detail.Metadata.Label title="Alias" text={detail.aliasEmail} /> : null,
+    actions: detail.aliasEmail ? (
+      <ActionPanel.Section title="Copy">
+        <Action.CopyToClipboard
+          title="Copy Alias"
+          content={detail.aliasEmail}
+          shortcut={{ modifiers: ["cmd"], key: "c" }}
+        />
+      </ActionPanel.Section>
+    ) : null,
+  };
+}
+
+const AGENT_LIFETIMES: { title: string; seconds?: number }[] = [
+  { title: "Until Removed" },
+  { title: "1 Hour", seconds: 60 * 60 },
+  { title: "8 Hours", seconds: 8 * 60 * 60 },
+  { title: "24 Hours", seconds: 24 * 60 * 60 },
+];
+
+async function loadKeyIntoAgent(privateKey: string, lifetime: { title: string; seconds?: number }) {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Adding key to ssh-agent..." });
+  try {
+    await addKeyToAgent(privateKey, lifetime.seconds);
+    toast.style = Toast.Style.Success;
+    toast.title = "Key Added to ssh-agent";
+    toast.message = lifetime.seconds ? `Expires in ${lifetime.title.toLowerCase()}` : undefined;
+  } catch (error: unknown) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Failed to add key to ssh-agent";
+    toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+  }
+}
+
+function getSshKeySection(detail: SshKeyItemDetail): TypeSection {
+  const { privateKey, publicKey } = detail.sshKey;
+  const info = publicKey ? parsePublicKey(publicKey) : undefined;
+
+  const markdown: string[] = [];
+  if (info) {
+    markdown.push(`**Key Type:** ${info.keyType}`);
+    markdown.push(`**Fingerprint:** \`${info.fingerprint}\``);
+    if (info.comment) markdown.push(`**Comment:** ${info.comment}`);
+  }
+  if (publicKey) markdown.push(`\n**Public Key:**`, "```", publicKey, "```");
+
+  return {
+    markdown,
+    metadata: info ? (
+      <>
+        <Detail.Metadata.Label title="Key Type" text={info.keyType} />
+        <Detail.Metadata.Label title="Fingerprint" text={info.fingerprint} />
+      </>
+    ) : null,
+    actions: (
+      <ActionPanel.Section title="SSH Key">
+        {publicKey && (
+          <Action.CopyToClipboard
+            title="Copy Public Key"
+            content={publicKey}
+            shortcut={{ modifiers: ["cmd"], key: "c" }}
+          />
+        )}
+        {info && (
+          <Action.CopyToClipboard
+            title="Copy Fingerprint"
+            content={info.fingerprint}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+        )}
+        {privateKey && (
+          <ActionPanel.Submenu
+            title="Add to SSH Agent"
+            icon={Icon.Terminal}
+            shortcut={{ modifiers: ["cmd"], key: "a" }}
+          >
+            {AGENT_LIFETIMES.map((lifetime) => (
+              <Action
+                key={lifetime.title}
+                title={lifetime.title}
+                onAction={() => loadKeyIntoAgent(privateKey, lifetime)}
+              />
+            ))}
+          </ActionPanel.Submenu>
+        )}
+      </ActionPanel.Section>
+    ),
+  };
+}
+
+function getWifiSection(detail: WifiItemDetail, copySecret: CopySecret, qrCode?: string): TypeSection {
+  const { ssid, password, security } = detail.wifi;
+  const markdown: string[] = [];
+  if (ssid) markdown.push(`**Network:** ${ssid}`);
+  if (security) markdown.push(`**Security:** ${security}`);
+  if (password) markdown.push(`**Password:** ${maskPassword(password)}`);
+  if (qrCode) markdown.push(`\n**Scan to Join:**\n\n![Wi-Fi QR Code](${qrCode})`);
+
+  return {
+    markdown,
+    metadata: (
+      <>
+        {ssid && <Detail.Metadata.Label title="Network" text={ssid} />}
+        {security && <Detail.Metadata.Label title="Security" text={security} />}
+      </>
+    ),
+    actions: (
+      <ActionPanel.Section title="Copy">
+        {password && (
+          <Action
+            title="Copy Password"
+            icon={Icon.Key}
+            shortcut={{ modifiers: ["cmd"], key: "c" }}
+            onAction={() => copySecret(password, "Password Copied")}
+          />
+        )}
+        {ssid && (
+          <Action.CopyToClipboard
+            title="Copy Network Name"
+            content={ssid}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+        )}
+      </ActionPanel.Section>
+    ),
+  };
+}
+
+function getTypeSection(detail: ItemDetail, copySecret: CopySecret, wifiQrCode?: string): TypeSection {
+  switch (detail.type) {
+    case "login":
+      return getLoginSection(detail, copySecret);
+    case "note":
+      return getNoteSection(detail);
+    case "credit_card":
+      return getCreditCardSection(detail, copySecret);
+    case "identity":
+      return getIdentitySection(detail, copySecret);
+    case "alias":
+      return getAliasSection(detail);
+    case "ssh_key":
+      return getSshKeySection(detail);
+    case "wifi":
+      return getWifiSection(detail, copySecret, wifiQrCode);
+    default:
+      return assertNever(detail);
+  }
+}
+
+interface ItemDetailViewProps {
+  item: Item;
+  vaultRole?: VaultRole;
+  onItemUpdated?: (item: Item) => void;
+}
+
+export function ItemDetailView({ item, vaultRole, onItemUpdated }: ItemDetailViewProps) {
+  const [detail, setDetail] = useState<ItemDetail | null>(null);
+  const [wifiQrCode, setWifiQrCode] = useState<string | undefined>();
+  const [breachCount, setBreachCount] = useState<number | undefined>();
+  const [breachError, setBreachError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const preferences = getPreferenceValues<Preferences>();
+
+  useEffect(() => {
+    loadDetail();
+  }, []);
+
+  async function loadDetail() {
+    try {
+      const itemDetail = await getItem(item.shareId, item.itemId);
+      setDetail(itemDetail);
+      loadBreachCount(itemDetail);
+      if (itemDetail.type === "wifi") {
+        setWifiQrCode(await generateWifiQrCode(itemDetail.wifi));
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred";
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load item details",
+        message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadBreachCount(itemDetail: ItemDetail) {
+    setBreachError(undefined);
+    if (itemDetail.type !== "login" || !itemDetail.password) {
+      setBreachCount(undefined);
+      return;
+    }
+    try {
+      setBreachCount(await getBreachCount(itemDetail.password));
+    } catch (error: unknown) {
+      setBreachCount(undefined);
+      setBreachError(error instanceof Error ? error.message : "Breached password lookup failed");
+    }
+  }
+
+  if (isLoading) {
+    return <Detail isLoading={true} />;
+  }
+
+  if (!detail) {
+    return <Detail markdown="Failed to load item details" />;
+  }
+
+  const canEdit = vaultRole !== undefined && canWriteToVault(vaultRole);
+
+  async function copySecret(value: string, title: string) {
+    await Clipboard.copy(value, { transient: preferences.copyPasswordTransient ?? true });
+    showToast({ style: Toast.Style.Success, title });
+    await recordItemUsage(item);
+  }
+
+  function handleSaved(updated: ItemDetail) {
+    setDetail(updated);
+    loadBreachCount(updated);
+    onItemUpdated?.(toItem(updated));
+  }
+
+  const section = getTypeSection(detail, copySecret, wifiQrCode);
+  const copyableFields = (detail.customFields ?? []).filter((field) => field.type !== "totp");
+
+  const markdownParts: string[] = [];
+
+  markdownParts.push(`# ${detail.title}\n`);
+  markdownParts.push(`**Type:** ${detail.type}`);
+  markdownParts.push(`**Vault:** ${detail.vaultName}\n`);
+  markdownParts.push(...section.markdown);
+
+  if (detail.note) {
+    markdownParts.push(`\n**Note:**\n${detail.note}`);
+  }
+
+  if (detail.customFields && detail.customFields.length > 0) {
+    markdownParts.push(`\n**Custom Fields:**`);
+    detail.customFields.forEach((field) => {
+      const value = field.type === "text" ? field.value : maskPassword(field.value);
+      markdownParts.push(`- **${field.name}:** ${value}`);
+    });
+  }
+
+  if (detail.hasTotp) {
+    markdownParts.push(`\n**2FA:** Enabled`);
+  }
+
+  if (breachCount !== undefined && breachCount > 0) {
+    markdownParts.push(`\n**Warning:** This password appears in known data breaches. Change it.`);
+  }
+
+  if (breachError) {
+    markdownParts.push(`\n**Breach check failed:** ${breachError}`);
+  }
+
+  const markdown = markdownParts.join("\n");
+
+  return (
+    <Detail
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Type" text={detail.type} icon={getItemIcon(detail.type)} />
+          <Detail.Metadata.Label title="Vault" text={detail.vaultName} />
+          {section.metadata}
+          {breachCount !== undefined && (
+            <Detail.Metadata.TagList title="Breaches">
+              <Detail.Metadata.TagList.Item
+                text={breachCount > 0 ? formatBreachCount(breachCount) : "Not Found"}
+                color={breachCount > 0 ? Color.Red : Color.Green}
+              />
+            </Detail.Metadata.TagList>
+          )}
+          {breachError && (
+            <Detail.Metadata.TagList title="Breaches">
+              <Detail.Metadata.TagList.Item text="Check Failed" color={Color.Orange} />
+            </Detail.Metadata.TagList>
+          )}
+          {detail.hasTotp && <Detail.Metadata.Label title="2FA" icon={Icon.Clock} />}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          {section.actions}
+          <ActionPanel.Section>
+            {detail.hasTotp && <CopyTotpActions item={detail} />}
+            {detail.note && detail.type !== "note" && (
+              <Action.CopyToClipboard
+                title="Copy Note"
+                content={detail.note}
+                shortcut={{ modifiers: ["cmd"], key: "n" }}
+              />
+            )}
+          </ActionPanel.Section>
+          {copyableFields.length > 0 && (
+            <ActionPanel.Section title="Custom Fields">
+              {copyableFields.map((field, index) => (
+                <Action.CopyToClipboard
+                  key={index}
+                  title={`Copy ${field.name}`}
+                  content={field.value}
+                  shortcut={
+                    index < 9
+                      ? {
+                          modifiers: ["cmd", "shift"],
+                          key: String(index + 1) as "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9",
+                        }
+                      : undefined
+                  }
+                />
+              ))}
+            </ActionPanel.Section>
+          )}
+          {canEdit && (
+            <ActionPanel.Section title="Manage">
+              <Action.Push
+                title="Edit Item"
+                icon={Icon.Pencil}
+                shortcut={{ modifiers: ["cmd"], key: "e" }}
+                target={<EditItemForm detail={detail} onSaved={handleSaved} />}
+              />
+            </ActionPanel.Section>
+          )}
+          <ActionPanel.Section title="Debug">
+            <Action.CopyToClipboard
+              title="Copy Item Debug Info"
+              content={JSON.stringify(
+                {
+                  type: detail.type,
+                  hasPassword: detail.type === "login" && !!detail.password,
+                  hasUsername: !!detail.username,
+                  hasEmail: !!detail.email,
+                  hasUrls: detail.type === "login" && !!detail.urls?.length,
+                  hasNote: !!detail.note,
+                  hasTotp: detail.hasTotp,
+                  customFieldsCount: detail.customFields?.length ?? 0,
+                },
+                null,
+                2,
+              )}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+            />
+            <Action
+              title="Copy Raw CLI Output"
+              icon={Icon.Terminal}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+              onAction={async () => {
+                try {
+                  const raw = await getItemRaw(detail.shareId, detail.itemId);
+                  await Clipboard.copy(raw);
+                  showToast({
+                    style: Toast.Style.Success,
+                    title: "Raw JSON Copied",
+                    message: "Paste to see actual CLI output",
+                  });
+                } catch (error: unknown) {
+                  const message = error instanceof Error ? error.message : "An unknown error occurred";
+                  showToast({ style: Toast.Style.Failure, title: "Failed", message });
+                }
+              }}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
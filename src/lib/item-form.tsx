@@ -0,0 +1,319 @@
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation, popToRoot } from "@raycast/api";
+import { Fragment, useRef, useState } from "react";
+import { updateItem, generateSshKeyItem } from "./pass-cli";
+import { CustomField, ItemDetail, LoginItemInput, PassCliError, Vault } from "./types";
+import { toItem, canWriteToVault } from "./utils";
+import { upsertCachedItem, adjustCachedVaultItemCount } from "./cache";
+
+export interface ItemFormValues {
+  shareId?: string;
+  title: string;
+  username?: string;
+  email?: string;
+  password?: string;
+  urls?: string;
+  totpUri?: string;
+  note: string;
+  [fieldId: `field-${string}`]: string;
+}
+
+interface ItemFormProps {
+  navigationTitle: string;
+  submitTitle: string;
+  submitIcon?: Icon;
+  isLoading?: boolean;
+  vaults?: Vault[];
+  initialValues?: Partial<ItemFormValues>;
+  initialFields?: CustomField[];
+  showLoginFields: boolean;
+  showTotpField?: boolean;
+  onSubmit: (input: LoginItemInput, shareId?: string) => Promise<void>;
+}
+
+function parseLines(text: string | undefined): string[] {
+  return (text ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+interface FormCustomField extends CustomField {
+  key: string;
+}
+
+const FIELD_TYPE_LABELS: Record<CustomField["type"], string> = {
+  text: "Text",
+  hidden: "Hidden",
+  totp: "TOTP",
+};
+
+function getFieldName(values: ItemFormValues, field: FormCustomField): string {
+  return (values[`field-${field.key}-name`] ?? "").trim();
+}
+
+function toItemInput(values: ItemFormValues, fields: FormCustomField[]): LoginItemInput {
+  const customFields = fields
+    .map((field) => ({
+      name: getFieldName(values, field),
+      value: values[`field-${field.key}-value`] ?? "",
+      type: field.type,
+    }))
+    .filter((field) => field.name.length > 0);
+
+  return {
+    title: values.title.trim(),
+    username: values.username?.trim() || undefined,
+    email: values.email?.trim() || undefined,
+    password: values.password || undefined,
+    urls: parseLines(values.urls),
+    note: values.note.trim() || undefined,
+    totpUri: values.totpUri?.trim() || undefined,
+    customFields,
+  };
+}
+
+export function getItemFormValues(detail: ItemDetail): Partial<ItemFormValues> {
+  const values: Partial<ItemFormValues> = {
+    title: detail.title,
+    note: detail.note ?? "",
+  };
+
+  if (detail.type !== "login") return values;
+
+  return {
+    ...values,
+    username: detail.username ?? "",
+    email: detail.email ?? "",
+    password: detail.password ?? "",
+    urls: (detail.urls ?? []).join("\n"),
+  };
+}
+
+export function ItemForm({
+  navigationTitle,
+  submitTitle,
+  submitIcon,
+  isLoading,
+  vaults,
+  initialValues,
+  initialFields,
+  showLoginFields,
+  showTotpField,
+  onSubmit,
+}: ItemFormProps) {
+  const [titleError, setTitleError] = useState<string | undefined>();
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const nextFieldKey = useRef(0);
+  const [fields, setFields] = useState<FormCustomField[]>(() =>
+    (initialFields ?? []).map((field) => ({ ...field, key: (nextFieldKey.current++).toString() })),
+  );
+
+  function addField(type: CustomField["type"]) {
+    setFields((current) => [...current, { name: "", value: "", type, key: (nextFieldKey.current++).toString() }]);
+  }
+
+  function removeField(key: string) {
+    setFields((current) => current.filter((field) => field.key !== key));
+  }
+
+  async function handleSubmit(values: ItemFormValues) {
+    const unnamed = fields.filter((field) => !getFieldName(values, field) && values[`field-${field.key}-value`]);
+    if (unnamed.length > 0) {
+      setFieldErrors(Object.fromEntries(unnamed.map((field) => [field.key, "Name is required"])));
+      return;
+    }
+
+    const input = toItemInput(values, fields);
+    if (!input.title) {
+      setTitleError("Title is required");
+      return;
+    }
+    await onSubmit(input, values.shareId);
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title={submitTitle} icon={submitIcon ?? Icon.Check} onSubmit={handleSubmit} />
+          <ActionPanel.Section title="Custom Fields">
+            <ActionPanel.Submenu title="Add Custom Field" icon={Icon.Plus} shortcut={{ modifiers: ["cmd"], key: "n" }}>
+              {(["text", "hidden", "totp"] as const).map((type) => (
+                <Action key={type} title={`${FIELD_TYPE_LABELS[type]} Field`} onAction={() => addField(type)} />
+              ))}
+            </ActionPanel.Submenu>
+            {fields.length > 0 && (
+              <ActionPanel.Submenu title="Remove Custom Field" icon={Icon.Minus}>
+                {fields.map((field) => (
+                  <Action
+                    key={field.key}
+                    title={field.name || `Untitled ${FIELD_TYPE_LABELS[field.type]} Field`}
+                    onAction={() => removeField(field.key)}
+                  />
+                ))}
+              </ActionPanel.Submenu>
+            )}
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    >
+      {vaults && (
+        <Form.Dropdown id="shareId" title="Vault" storeValue={true}>
+          {vaults.map((vault) => (
+            <Form.Dropdown.Item key={vault.shareId} value={vault.shareId} title={vault.name} icon={Icon.Folder} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <Form.TextField
+        id="title"
+        title="Title"
+        placeholder="GitHub"
+        defaultValue={initialValues?.title}
+        error={titleError}
+        onChange={() => setTitleError(undefined)}
+      />
+      {showLoginFields && (
+        <>
+          <Form.Separator />
+          <Form.TextField id="username" title="Username" defaultValue={initialValues?.username} />
+          <Form.TextField id="email" title="Email" defaultValue={initialValues?.email} />
+          <Form.PasswordField id="password" title="Password" defaultValue={initialValues?.password} />
+          <Form.TextArea
+            id="urls"
+            title="URLs"
+            placeholder="https://github.com"
+            info="One URL per line"
+            defaultValue={initialValues?.urls}
+          />
+        </>
+      )}
+      {showTotpField && <Form.PasswordField id="totpUri" title="TOTP URI" placeholder="otpauth://totp/..." />}
+      <Form.Separator />
+      <Form.TextArea id="note" title="Note" defaultValue={initialValues?.note} />
+      {fields.map((field) => (
+        <Fragment key={field.key}>
+          <Form.Separator />
+          <Form.TextField
+            id={`field-${field.key}-name`}
+            title={`${FIELD_TYPE_LABELS[field.type]} Field`}
+            placeholder="Name"
+            defaultValue={field.name}
+            error={fieldErrors[field.key] || undefined}
+            onChange={() => setFieldErrors((current) => ({ ...current, [field.key]: "" }))}
+          />
+          {field.type === "text" ? (
+            <Form.TextArea id={`field-${field.key}-value`} title="Value" defaultValue={field.value} />
+          ) : (
+            <Form.PasswordField
+              id={`field-${field.key}-value`}
+              title="Value"
+              placeholder={field.type === "totp" ? "otpauth://totp/..." : undefined}
+              defaultValue={field.value}
+            />
+          )}
+        </Fragment>
+      ))}
+    </Form>
+  );
+}
+
+export function EditItemForm({ detail, onSaved }: { detail: ItemDetail; onSaved: (detail: ItemDetail) => void }) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(input: LoginItemInput) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Saving changes..." });
+    try {
+      const updated = await updateItem(detail, input);
+      await upsertCachedItem(toItem(updated));
+      onSaved(updated);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Item Updated";
+      toast.message = updated.title;
+      pop();
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      if (error instanceof PassCliError && error.type === "conflict") {
+        toast.title = "Item Changed on Server";
+        toast.message = error.message;
+        return;
+      }
+      toast.title = "Failed to update item";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  return (
+    <ItemForm
+      navigationTitle={`Edit ${detail.title}`}
+      submitTitle="Save Changes"
+      initialValues={getItemFormValues(detail)}
+      initialFields={detail.customFields}
+      showLoginFields={detail.type === "login"}
+      onSubmit={handleSubmit}
+    />
+  );
+}
+
+export function GenerateSshKeyForm({ vaults, isLoading }: { vaults: Vault[]; isLoading?: boolean }) {
+  const [titleError, setTitleError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { shareId: string; title: string; comment: string }) {
+    const vault = vaults.find((v) => v.shareId === values.shareId);
+    const title = values.title.trim();
+    if (!title) {
+      setTitleError("Title is required");
+      return;
+    }
+    if (!vault) {
+      await showToast({ style: Toast.Style.Failure, title: "Select a vault" });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Generating SSH key..." });
+    try {
+      const item = await generateSshKeyItem(vault, title, values.comment.trim() || undefined);
+      await Promise.all([upsertCachedItem(item), adjustCachedVaultItemCount(vault.shareId, 1)]);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "SSH Key Created";
+      toast.message = `${item.title} in ${vault.name}`;
+      await popToRoot({ clearSearchBar: true });
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to generate SSH key";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Generate SSH Key"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Generate SSH Key" icon={Icon.Key} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="shareId" title="Vault" storeValue={true}>
+        {vaults
+          .filter((vault) => canWriteToVault(vault.role))
+          .map((vault) => (
+            <Form.Dropdown.Item key={vault.shareId} value={vault.shareId} title={vault.name} icon={Icon.Folder} />
+          ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="title"
+        title="Title"
+        placeholder="Deploy Key"
+        error={titleError}
+        onChange={() => setTitleError(undefined)}
+      />
+      <Form.TextField id="comment" title="Comment" placeholder="user@host" />
+      <Form.Description text="A new ed25519 key pair is generated and stored in the selected vault." />
+    </Form>
+  );
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { promisify } from "util";
+import { ItemDetail, LoginItemInput, Vault } from "./types";
+
+const { execFileMock } = vi.hoisted(() => ({ execFileMock: vi.fn() }));
+
+vi.mock("child_process", () => ({
+  execFile: Object.assign(vi.fn(), { [promisify.custom]: execFileMock }),
+}));
+
+import { createLoginItem, passwordScore, updateItem } from "./pass-cli";
+
+const ITEM_JSON = JSON.stringify({
+  share_id: "share-1",
+  id: "item-1",
+  content: { title: "Example", content: { Login: { username: "alice" } } },
+});
+
+const vault: Vault = { shareId: "share-1", name: "Personal", itemCount: 1, role: "owner" };
+
+const input: LoginItemInput = {
+  title: "Example",
+  username: "alice",
+  password: "hunter2-secret",
+  totpUri: "otpauth://totp/Example?secret=JBSWY3DPEHPK3PXP",
+  customFields: [
+    { name: "PIN", type: "hidden", value: "4821" },
+    { name: "Recovery", type: "totp", value: "otpauth://totp/Recovery?secret=KRSXG5CTMVRXEZLU" },
+  ],
+};
+
+function getExecutedArgs(): string[][] {
+  return execFileMock.mock.calls.map(([, args]) => args as string[]);
+}
+
+beforeEach(() => {
+  execFileMock.mockReset();
+  execFileMock.mockImplementation((_file: string, args: string[]) => {
+    const stdout = args.includes("score") ? JSON.stringify({ numericScore: 90, passwordScore: "Strong" }) : ITEM_JSON;
+    return Object.assign(Promise.resolve({ stdout, stderr: "" }), {
+      child: { stdin: { on: vi.fn(), end: vi.fn() } },
+    });
+  });
+});
+
+describe("pass-cli secrets", () => {
+  const secrets = [input.password, input.totpUri, "4821", input.customFields?.[1].value];
+
+  it("sends login secrets on stdin when creating an item", async () => {
+    await createLoginItem(vault, input);
+
+    const args = getExecutedArgs().flat();
+    expect(args).toContain("--from-stdin");
+    for (const secret of secrets) {
+      expect(args.some((arg) => arg.includes(secret as string))).toBe(false);
+    }
+  });
+
+  it("sends login secrets on stdin when updating an item", async () => {
+    const detail = { shareId: "share-1", itemId: "item-1", type: "login", title: "Example" } as ItemDetail;
+    await updateItem(detail, input);
+
+    const args = getExecutedArgs().flat();
+    expect(args).toContain("--from-stdin");
+    for (const secret of secrets) {
+      expect(args.some((arg) => arg.includes(secret as string))).toBe(false);
+    }
+  });
+
+  it("passes the password to score through the environment", async () => {
+    await passwordScore("hunter2-secret");
+
+    const [[, args, options]] = execFileMock.mock.calls;
+    expect(args).not.toContain("hunter2-secret");
+    expect(options.env.PASS_CLI_PASSWORD).toBe("hunter2-secret");
+  });
+
+  it("refuses to run when an argument is a secret value", async () => {
+    const leakyVault = { ...vault, shareId: "hunter2-secret" };
+
+    await expect(createLoginItem(leakyVault, input)).rejects.toThrow("Refusing to pass a secret value");
+    expect(execFileMock).not.toHaveBeenCalled();
+  });
+
+  it("allows arguments that merely contain a secret value", async () => {
+    await createLoginItem(vault, { ...input, password: "share" });
+
+    expect(getExecutedArgs().flat()).toContain("share-1");
+  });
+
+  it("scores passwords that match a pass-cli subcommand word", async () => {
+    await expect(passwordScore("password")).resolves.toMatchObject({ passwordScore: "Strong" });
+    expect(execFileMock.mock.calls[0][2].env.PASS_CLI_PASSWORD).toBe("password");
+  });
+
+  it("creates items whose password matches a pass-cli subcommand word", async () => {
+    await expect(createLoginItem(vault, { ...input, password: "login" })).resolves.toMatchObject({ itemId: "item-1" });
+  });
+});
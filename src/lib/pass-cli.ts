@@ -4,19 +4,35 @@ import { homedir } from "os";
 import { delimiter } from "path";
 import { promisify } from "util";
 import {
+  AliasItemDetail,
+  BaseItemDetail,
+  CreditCardItemDetail,
+  CustomField,
+  IdentityItemDetail,
   Item,
   ItemDetail,
   ItemType,
+  LoginItemDetail,
+  LoginItemInput,
+  NamedTotpCode,
+  NoteItemDetail,
   PassCliError,
   PassCliErrorType,
-  PasswordOptions,
   PasswordScore,
   Preferences,
+  SshKeyItemDetail,
+  TotpField,
   Vault,
+  VaultInvite,
+  VaultMember,
+  VaultMembers,
   VaultRole,
+  WifiItemDetail,
 } from "./types";
 import { MOCK_VAULTS, MOCK_ITEMS, MOCK_ITEM_DETAILS, MOCK_TOTP_CODES } from "./mock-data";
 import { clearCache } from "./cache";
+import { assertNever } from "./utils";
+import { parseTotpUri, generateTotp, getTotpExpiry, DEFAULT_PERIOD, PRIMARY_TOTP_NAME } from "./totp";
 
 let mockCacheCleared = false;
 
@@ -34,6 +50,8 @@ async function ensureMockCacheCleared(): Promise<void> {
 
 const execFileAsync = promisify(execFile);
 
+const PASSWORD_ENV_VAR = "PASS_CLI_PASSWORD";
+
 function trimOrUndefined(value: unknown): string | undefined {
   if (typeof value !== "string") return undefined;
   const trimmed = value.trim();
@@ -104,6 +122,15 @@ function createExecEnv(): NodeJS.ProcessEnv {
 function classifyCliError(text: string): PassCliErrorType {
   const normalized = text.toLowerCase();
 
+  if (
+    normalized.includes("revision conflict") ||
+    normalized.includes("revision mismatch") ||
+    normalized.includes("newer revision") ||
+    normalized.includes("item has been modified")
+  ) {
+    return "conflict";
+  }
+
   if (normalized.includes("cannot get the encryption key") || normalized.includes("error creating client features")) {
     return "keyring_error";
   }
@@ -131,10 +158,25 @@ function classifyCliError(text: string): PassCliErrorType {
   return "unknown";
 }
 
+interface CliInput {
+  stdin?: string;
+  env?: Record<string, string>;
+  secrets?: (string | undefined)[];
+  userArgs?: string[];
+}
+
+function assertNoSecretsInArgs(userArgs: string[], secrets: (string | undefined)[]): void {
+  const values = secrets.filter((s): s is string => typeof s === "string" && s.length > 0);
+  if (userArgs.some((arg) => values.includes(arg))) {
+    throw new PassCliError("Refusing to pass a secret value on the pass-cli command line.", "unknown");
+  }
+}
+
 async function execPassCli(
   cliPath: string,
   args: string[],
   env: NodeJS.ProcessEnv,
+  stdin?: string,
 ): Promise<{ stdout: string; stderr: string }> {
   const baseOptions = {
     env,
@@ -143,26 +185,33 @@ async function execPassCli(
     windowsHide: true,
   };
 
-  try {
-    const { stdout, stderr } = await execFileAsync(cliPath, args, baseOptions);
+  const run = async (file: string) => {
+    const promise = execFileAsync(file, args, baseOptions);
+    promise.child.stdin?.on("error", () => undefined);
+    promise.child.stdin?.end(stdin);
+    const { stdout, stderr } = await promise;
     return { stdout: stdout ?? "", stderr: stderr ?? "" };
+  };
+
+  try {
+    return await run(cliPath);
   } catch (err: unknown) {
     const execErr = err as NodeJS.ErrnoException;
     const isEnoent = execErr?.code === "ENOENT" || execErr?.errno === -2;
     if (process.platform === "win32" && isEnoent && !cliPath.toLowerCase().endsWith(".exe")) {
-      const { stdout, stderr } = await execFileAsync(`${cliPath}.exe`, args, baseOptions);
-      return { stdout: stdout ?? "", stderr: stderr ?? "" };
+      return run(`${cliPath}.exe`);
     }
     throw err;
   }
 }
 
-async function runCli(args: string[]): Promise<string> {
+async function runCli(args: string[], input: CliInput = {}): Promise<string> {
   const cliPath = getCliPath();
-  const env = createExecEnv();
+  const env = { ...createExecEnv(), ...input.env };
+  assertNoSecretsInArgs(input.userArgs ?? [], input.secrets ?? []);
 
   try {
-    const { stdout } = await execPassCli(cliPath, args, env);
+    const { stdout } = await execPassCli(cliPath, args, env, input.stdin);
     return (stdout ?? "").trim();
   } catch (error: unknown) {
     const execErr = error as NodeJS.ErrnoException & { killed?: boolean; signal?: string; stderr?: string };
@@ -202,6 +251,13 @@ async function runCli(args: string[]): Promise<string> {
       throw new PassCliError("Network error. Check your connection and try again.", "network_error");
     }
 
+    if (type === "conflict") {
+      throw new PassCliError(
+        "This item was changed elsewhere since you opened it. Reload it and apply your changes again.",
+        "conflict",
+      );
+    }
+
     const safeDetails =
       combined.length > 0 ? truncateMiddle(combined, 600) : "An unknown error occurred while running pass-cli.";
     throw new PassCliError(safeDetails, "unknown");
@@ -242,6 +298,43 @@ function normalizeVault(raw: unknown): Vault {
   };
 }
 
+function normalizeVaultMember(raw: unknown): VaultMember {
+  if (!isRecord(raw)) {
+    throw new PassCliError("Unexpected vault member data from pass-cli.", "invalid_output");
+  }
+
+  const memberShareId = trimOrUndefined(raw.share_id ?? raw.shareId ?? raw.member_share_id ?? raw.id);
+  const email = trimOrUndefined(raw.email ?? raw.user_email);
+  const isCurrentUser = raw.is_current_user === true || raw.isCurrentUser === true || raw.owner === "me";
+
+  if (!memberShareId || !email) {
+    throw new PassCliError("Unexpected vault member data from pass-cli.", "invalid_output");
+  }
+
+  return {
+    memberShareId,
+    email,
+    name: trimOrUndefined(raw.name ?? raw.display_name),
+    role: normalizeVaultRole(raw.role),
+    isCurrentUser,
+  };
+}
+
+function normalizeVaultInvite(raw: unknown): VaultInvite {
+  if (!isRecord(raw)) {
+    throw new PassCliError("Unexpected vault invite data from pass-cli.", "invalid_output");
+  }
+
+  const inviteId = trimOrUndefined(raw.invite_id ?? raw.inviteId ?? raw.id);
+  const email = trimOrUndefined(raw.email ?? raw.invited_email);
+
+  if (!inviteId || !email) {
+    throw new PassCliError("Unexpected vault invite data from pass-cli.", "invalid_output");
+  }
+
+  return { inviteId, email, role: normalizeVaultRole(raw.role) };
+}
+
 function getItemTypeFromContent(contentData: unknown): {
   type: ItemType;
   loginData: Record<string, unknown> | undefined;
@@ -275,6 +368,15 @@ function getItemTypeFromContent(contentData: unknown): {
   return { type: "note", loginData: undefined };
 }
 
+function parseTimestamp(value: unknown): number | undefined {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (Number.isFinite(numeric) && numeric > 0) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
 function normalizeItem(raw: unknown, vaultNameOverride?: string): Item {
   if (!isRecord(raw)) {
     throw new PassCliError("Unexpected item data from pass-cli.", "invalid_output");
@@ -291,11 +393,16 @@ function normalizeItem(raw: unknown, vaultNameOverride?: string): Item {
 
   const username = loginData ? trimOrUndefined(loginData.username) : trimOrUndefined(raw.username);
   const email = loginData ? trimOrUndefined(loginData.email) : trimOrUndefined(raw.email);
+  const urls = loginData ? normalizeStringArray(loginData.urls) : undefined;
 
   const totpUri = loginData ? trimOrUndefined(loginData.totp_uri ?? loginData.totpUri) : undefined;
-  const hasTotp = totpUri !== undefined && totpUri.length > 0;
+  const totpFields = getCustomFields(raw)
+    ?.filter((field) => field.type === "totp")
+    .map((field) => ({ name: field.name, uri: field.value }));
+  const hasTotp = (totpUri !== undefined && totpUri.length > 0) || (totpFields !== undefined && totpFields.length > 0);
 
   const vaultName = vaultNameOverride ?? trimOrUndefined(raw.vaultName ?? raw.vault_name) ?? "Unknown Vault";
+  const modifiedAt = parseTimestamp(raw.modify_time ?? raw.modifyTime ?? raw.modified_at ?? raw.update_time);
 
   if (!shareId || !itemId || !title) {
     throw new PassCliError("Unexpected item data from pass-cli.", "invalid_output");
@@ -309,11 +416,15 @@ function normalizeItem(raw: unknown, vaultNameOverride?: string): Item {
     vaultName,
     username,
     email,
+    urls,
     hasTotp,
+    totpUri,
+    totpFields: totpFields && totpFields.length > 0 ? totpFields : undefined,
+    modifiedAt,
   };
 }
 
-function normalizeCustomFields(raw: unknown): ItemDetail["customFields"] {
+function normalizeCustomFields(raw: unknown): CustomField[] | undefined {
   if (raw === undefined || raw === null) return undefined;
 
   const arr = Array.isArray(raw) ? raw : undefined;
@@ -323,9 +434,9 @@ function normalizeCustomFields(raw: unknown): ItemDetail["customFields"] {
     .map((field) => {
       if (!isRecord(field)) return undefined;
       const name = trimOrUndefined(field.name ?? field.key);
-      const value = trimOrUndefined(field.value);
+      const value = trimOrUndefined(field.value ?? field.totp_uri);
       const typeRaw = trimOrUndefined(field.type)?.toLowerCase();
-      const type = typeRaw === "hidden" ? "hidden" : "text";
+      const type = typeRaw === "hidden" || typeRaw === "totp" ? typeRaw : "text";
       if (!name || value === undefined) return undefined;
       return { name, value, type } as const;
     })
@@ -334,6 +445,16 @@ function normalizeCustomFields(raw: unknown): ItemDetail["customFields"] {
   return mapped.length > 0 ? mapped : undefined;
 }
 
+function getCustomFields(raw: Record<string, unknown>): CustomField[] | undefined {
+  const outerContent = isRecord(raw.content) ? raw.content : raw;
+  return (
+    normalizeCustomFields(outerContent.extra_fields) ??
+    normalizeCustomFields(outerContent.extraFields) ??
+    normalizeCustomFields(raw.extra_fields) ??
+    normalizeCustomFields(raw.extraFields)
+  );
+}
+
 function normalizeStringArray(raw: unknown): string[] | undefined {
   if (!Array.isArray(raw)) return undefined;
   const values = raw.map((v) => trimOrUndefined(v)).filter((v): v is string => Boolean(v));
@@ -356,37 +477,141 @@ function getTypeSpecificData(raw: Record<string, unknown>): Record<string, unkno
   return undefined;
 }
 
-function normalizeItemDetail(raw: unknown): ItemDetail {
-  if (!isRecord(raw)) {
-    throw new PassCliError("Unexpected item details from pass-cli.", "invalid_output");
+function pickString(data: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = trimOrUndefined(data[key]);
+    if (value) return value;
   }
+  return undefined;
+}
 
-  const base = normalizeItem(raw);
+function normalizeLoginDetail(base: BaseItemDetail, typeData: Record<string, unknown>): LoginItemDetail {
+  return {
+    ...base,
+    type: "login",
+    password: pickString(typeData, "password"),
+    urls: normalizeStringArray(typeData.urls),
+    totpUri: pickString(typeData, "totp_uri", "totpUri"),
+  };
+}
 
-  const outerContent = isRecord(raw.content) ? raw.content : raw;
-  const typeData = getTypeSpecificData(raw);
+function normalizeNoteDetail(base: BaseItemDetail): NoteItemDetail {
+  return { ...base, type: "note" };
+}
 
-  const password = typeData ? trimOrUndefined(typeData.password) : undefined;
+function normalizeCreditCardDetail(base: BaseItemDetail, typeData: Record<string, unknown>): CreditCardItemDetail {
+  return {
+    ...base,
+    type: "credit_card",
+    creditCard: {
+      cardholderName: pickString(typeData, "cardholder_name", "cardholderName"),
+      cardType: pickString(typeData, "card_type", "cardType"),
+      number: pickString(typeData, "number", "card_number")?.replace(/\s+/g, ""),
+      expirationDate: pickString(typeData, "expiration_date", "expirationDate"),
+      verificationNumber: pickString(typeData, "verification_number", "verificationNumber", "cvv"),
+      pin: pickString(typeData, "pin"),
+    },
+  };
+}
 
-  const urls = typeData ? normalizeStringArray(typeData.urls) : undefined;
+function normalizeIdentityDetail(base: BaseItemDetail, typeData: Record<string, unknown>): IdentityItemDetail {
+  return {
+    ...base,
+    type: "identity",
+    identity: {
+      fullName: pickString(typeData, "full_name", "fullName"),
+      firstName: pickString(typeData, "first_name", "firstName"),
+      middleName: pickString(typeData, "middle_name", "middleName"),
+      lastName: pickString(typeData, "last_name", "lastName"),
+      birthdate: pickString(typeData, "birthdate", "birth_date"),
+      gender: pickString(typeData, "gender"),
+      email: pickString(typeData, "email"),
+      phoneNumber: pickString(typeData, "phone_number", "phoneNumber"),
+      secondPhoneNumber: pickString(typeData, "second_phone_number", "secondPhoneNumber"),
+      website: pickString(typeData, "website", "personal_website", "personalWebsite"),
+      streetAddress: pickString(typeData, "street_address", "streetAddress"),
+      floor: pickString(typeData, "floor"),
+      city: pickString(typeData, "city"),
+      stateOrProvince: pickString(typeData, "state_or_province", "stateOrProvince"),
+      zipOrPostalCode: pickString(typeData, "zip_or_postal_code", "zipOrPostalCode"),
+      county: pickString(typeData, "county"),
+      countryOrRegion: pickString(typeData, "country_or_region", "countryOrRegion"),
+      company: pickString(typeData, "company", "organization"),
+      jobTitle: pickString(typeData, "job_title", "jobTitle"),
+      workEmail: pickString(typeData, "work_email", "workEmail"),
+      workPhoneNumber: pickString(typeData, "work_phone_number", "workPhoneNumber"),
+      socialSecurityNumber: pickString(typeData, "social_security_number", "socialSecurityNumber"),
+      passportNumber: pickString(typeData, "passport_number", "passportNumber"),
+      licenseNumber: pickString(typeData, "license_number", "licenseNumber"),
+    },
+  };
+}
 
-  const note = trimOrUndefined(outerContent.note ?? raw.note);
+function normalizeAliasDetail(base: BaseItemDetail, raw: Record<string, unknown>): AliasItemDetail {
+  return { ...base, type: "alias", aliasEmail: pickString(raw, "alias_email", "aliasEmail") };
+}
 
-  const customFields =
-    normalizeCustomFields(outerContent.extra_fields) ??
-    normalizeCustomFields(outerContent.extraFields) ??
-    normalizeCustomFields(raw.extra_fields) ??
-    normalizeCustomFields(raw.extraFields);
+function normalizeSshKeyDetail(base: BaseItemDetail, typeData: Record<string, unknown>): SshKeyItemDetail {
+  return {
+    ...base,
+    type: "ssh_key",
+    sshKey: {
+      privateKey: pickString(typeData, "private_key", "privateKey"),
+      publicKey: pickString(typeData, "public_key", "publicKey"),
+    },
+  };
+}
 
+function normalizeWifiDetail(base: BaseItemDetail, typeData: Record<string, unknown>): WifiItemDetail {
   return {
     ...base,
-    password,
-    urls,
-    note,
-    customFields,
+    type: "wifi",
+    wifi: {
+      ssid: pickString(typeData, "ssid", "SSID"),
+      password: pickString(typeData, "password"),
+      security: pickString(typeData, "security", "security_type"),
+    },
   };
 }
 
+function normalizeItemDetail(raw: unknown): ItemDetail {
+  if (!isRecord(raw)) {
+    throw new PassCliError("Unexpected item details from pass-cli.", "invalid_output");
+  }
+
+  const outerContent = isRecord(raw.content) ? raw.content : raw;
+  const typeData = getTypeSpecificData(raw) ?? {};
+
+  const revisionValue = raw.revision ?? raw.content_revision;
+  const revision = typeof revisionValue === "number" ? revisionValue : Number(revisionValue);
+
+  const base: BaseItemDetail = {
+    ...normalizeItem(raw),
+    revision: Number.isFinite(revision) ? revision : undefined,
+    note: trimOrUndefined(outerContent.note ?? raw.note),
+    customFields: getCustomFields(raw),
+  };
+
+  switch (base.type) {
+    case "login":
+      return normalizeLoginDetail(base, typeData);
+    case "note":
+      return normalizeNoteDetail(base);
+    case "credit_card":
+      return normalizeCreditCardDetail(base, typeData);
+    case "identity":
+      return normalizeIdentityDetail(base, typeData);
+    case "alias":
+      return normalizeAliasDetail(base, raw);
+    case "ssh_key":
+      return normalizeSshKeyDetail(base, typeData);
+    case "wifi":
+      return normalizeWifiDetail(base, typeData);
+    default:
+      return assertNever(base.type);
+  }
+}
+
 export async function checkAuth(): Promise<boolean> {
   if (useMockData()) {
     await ensureMockCacheCleared();
@@ -421,7 +646,90 @@ export async function listVaults(): Promise<Vault[]> {
   return vaultsRaw.map(normalizeVault);
 }
 
-async function listItemsFromVault(shareId: string, vaultName: string): Promise<Item[]> {
+type ItemState = "active" | "trashed";
+
+export async function createVault(name: string): Promise<Vault> {
+  if (useMockData()) {
+    return { shareId: `vault-${Date.now()}`, name, itemCount: 0, role: "owner" };
+  }
+
+  const output = await runCli(["vault", "create", "--name", name, "--output", "json"]);
+  const data = parseJson<unknown>(output, "vault create");
+  const raw = isRecord(data) && isRecord(data.vault) ? data.vault : data;
+
+  return { ...normalizeVault(raw), role: "owner" };
+}
+
+export async function renameVault(vault: Vault, name: string): Promise<Vault> {
+  if (useMockData()) {
+    return { ...vault, name };
+  }
+
+  await runCli(["vault", "update", "--share-id", vault.shareId, "--name", name]);
+  return { ...vault, name };
+}
+
+export async function deleteVault(vault: Vault): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["vault", "delete", "--share-id", vault.shareId]);
+}
+
+export async function listVaultMembers(vault: Vault): Promise<VaultMembers> {
+  if (useMockData()) {
+    return {
+      members: [
+        { memberShareId: `${vault.shareId}-me`, email: "john@example.com", role: vault.role, isCurrentUser: true },
+      ],
+      invites: [],
+    };
+  }
+
+  const output = await runCli(["vault", "member", "list", "--share-id", vault.shareId, "--output", "json"]);
+  const data = parseJson<unknown>(output, "vault member list");
+
+  const membersRaw = Array.isArray(data) ? data : isRecord(data) ? data.members : undefined;
+  const invitesRaw = isRecord(data) && Array.isArray(data.invites) ? data.invites : [];
+  if (!Array.isArray(membersRaw)) {
+    throw new PassCliError("Unexpected vault member list output from pass-cli.", "invalid_output");
+  }
+
+  return {
+    members: membersRaw.map(normalizeVaultMember),
+    invites: invitesRaw.map(normalizeVaultInvite),
+  };
+}
+
+export async function inviteVaultMember(vault: Vault, email: string, role: VaultRole): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["vault", "share", "--share-id", vault.shareId, "--email", email, "--role", role]);
+}
+
+export async function updateVaultMemberRole(vault: Vault, member: VaultMember, role: VaultRole): Promise<void> {
+  if (useMockData()) return;
+  await runCli([
+    "vault",
+    "member",
+    "update",
+    "--share-id",
+    vault.shareId,
+    "--member-share-id",
+    member.memberShareId,
+    "--role",
+    role,
+  ]);
+}
+
+export async function removeVaultMember(vault: Vault, member: VaultMember): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["vault", "member", "remove", "--share-id", vault.shareId, "--member-share-id", member.memberShareId]);
+}
+
+export async function cancelVaultInvite(vault: Vault, invite: VaultInvite): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["vault", "invite", "cancel", "--share-id", vault.shareId, "--invite-id", invite.inviteId]);
+}
+
+async function listItemsFromVault(shareId: string, vaultName: string, state: ItemState = "active"): Promise<Item[]> {
   const args = ["item", "list", "--share-id", shareId, "--output", "json"];
 
   const output = await runCli(args);
@@ -435,8 +743,8 @@ async function listItemsFromVault(shareId: string, vaultName: string): Promise<I
   return itemsRaw
     .filter((item) => {
       if (!isRecord(item)) return false;
-      const state = trimOrUndefined(item.state);
-      return state !== "Trashed";
+      const isTrashed = trimOrUndefined(item.state) === "Trashed";
+      return state === "trashed" ? isTrashed : !isTrashed;
     })
     .map((item) => normalizeItem(item, vaultName));
 }
@@ -471,6 +779,27 @@ export async function listItems(shareId?: string): Promise<Item[]> {
   return allItems;
 }
 
+export async function listTrashedItems(): Promise<Item[]> {
+  if (useMockData()) {
+    await ensureMockCacheCleared();
+    return [];
+  }
+
+  const vaults = await listVaults();
+  const trashedItems: Item[] = [];
+
+  for (const vault of vaults) {
+    try {
+      const items = await listItemsFromVault(vault.shareId, vault.name, "trashed");
+      trashedItems.push(...items);
+    } catch (error) {
+      console.error(`Failed to list trashed items from vault ${vault.name}:`, error);
+    }
+  }
+
+  return trashedItems;
+}
+
 function unwrapItemResponse(data: unknown): unknown {
   if (!isRecord(data)) return data;
 
@@ -495,7 +824,7 @@ export async function getItem(shareId: string, itemId: string): Promise<ItemDeta
     const mockDetail = MOCK_ITEM_DETAILS[itemId];
     if (mockDetail) return mockDetail;
     const mockItem = MOCK_ITEMS.find((i) => i.itemId === itemId && i.shareId === shareId);
-    if (mockItem) return { ...mockItem, password: "mock-password-123" };
+    if (mockItem?.type === "login") return { ...mockItem, type: "login", password: "mock-password-123" };
     throw new PassCliError("Item not found", "invalid_output");
   }
 
@@ -511,6 +840,11 @@ export async function getItemRaw(shareId: string, itemId: string): Promise<strin
 }
 
 export async function getTotpCodes(shareId: string, itemId: string): Promise<Record<string, string>> {
+  if (useMockData()) {
+    const mockCode = MOCK_TOTP_CODES[itemId];
+    return mockCode ? { [PRIMARY_TOTP_NAME]: mockCode } : {};
+  }
+
   const output = await runCli(["item", "totp", "--share-id", shareId, "--item-id", itemId, "--output", "json"]);
   const data = parseJson<unknown>(output, "item totp");
 
@@ -526,45 +860,189 @@ export async function getTotpCodes(shareId: string, itemId: string): Promise<Rec
   return Object.fromEntries(entries);
 }
 
-export async function getTotp(shareId: string, itemId: string): Promise<string> {
-  if (useMockData()) {
-    const mockCode = MOCK_TOTP_CODES[itemId];
-    if (mockCode) return mockCode;
+export async function getItemTotps(item: Item): Promise<NamedTotpCode[]> {
+  const fields: TotpField[] = [
+    ...(item.totpUri ? [{ name: PRIMARY_TOTP_NAME, uri: item.totpUri }] : []),
+    ...(item.totpFields ?? []),
+  ];
+  const configs = new Map(fields.map((field) => [field.name, parseTotpUri(field.uri)]));
+
+  const allLocal = fields.length > 0 && [...configs.values()].every((config) => config !== undefined);
+  const remoteCodes = allLocal ? {} : await getTotpCodes(item.shareId, item.itemId);
+
+  const remoteNames = Object.keys(remoteCodes)
+    .filter((name) => !configs.has(name))
+    .sort((a, b) => (a === PRIMARY_TOTP_NAME ? -1 : b === PRIMARY_TOTP_NAME ? 1 : a.localeCompare(b)));
+
+  const codes = [...configs.keys(), ...remoteNames].flatMap((name): NamedTotpCode[] => {
+    const config = configs.get(name);
+    if (config) return [{ name, ...generateTotp(config) }];
+
+    const code = remoteCodes[name];
+    return code ? [{ name, code, period: DEFAULT_PERIOD, expiresAt: getTotpExpiry(DEFAULT_PERIOD) }] : [];
+  });
+
+  if (codes.length === 0) {
     throw new PassCliError("No TOTP fields found for this item.", "invalid_output");
   }
+  return codes;
+}
 
-  const codes = await getTotpCodes(shareId, itemId);
-  const preferred = codes.totp;
-  if (preferred) return preferred;
+function getSecretValues(input: LoginItemInput): (string | undefined)[] {
+  const hiddenFields = (input.customFields ?? []).filter((field) => field.type !== "text");
+  return [input.password, input.totpUri, ...hiddenFields.map((field) => field.value)];
+}
 
-  const firstKey = Object.keys(codes).sort()[0];
-  const first = firstKey ? codes[firstKey] : undefined;
-  if (!first) {
-    throw new PassCliError("No TOTP fields found for this item.", "invalid_output");
+function buildItemPayload(input: LoginItemInput, includeLoginFields: boolean): string {
+  const payload: Record<string, unknown> = {
+    title: input.title,
+    note: input.note ?? "",
+    extra_fields: (input.customFields ?? []).map(({ name, type, value }) => ({ name, type, value })),
+  };
+  if (includeLoginFields) {
+    payload.username = input.username ?? "";
+    payload.email = input.email ?? "";
+    payload.password = input.password ?? "";
+    payload.urls = input.urls ?? [];
+  }
+  if (includeLoginFields && input.totpUri !== undefined) {
+    payload.totp_uri = input.totpUri;
+  }
+  return JSON.stringify(payload);
+}
+
+export async function createLoginItem(vault: Vault, input: LoginItemInput): Promise<Item> {
+  if (useMockData()) {
+    return {
+      shareId: vault.shareId,
+      itemId: `item-${Date.now()}`,
+      title: input.title,
+      type: "login",
+      vaultName: vault.name,
+      username: input.username,
+      email: input.email,
+      hasTotp: Boolean(input.totpUri),
+      totpUri: input.totpUri,
+    };
+  }
+
+  const args = ["item", "create", "login", "--share-id", vault.shareId, "--from-stdin", "--output", "json"];
+  const output = await runCli(args, {
+    stdin: buildItemPayload(input, true),
+    secrets: getSecretValues(input),
+    userArgs: [vault.shareId],
+  });
+  const data = parseJson<unknown>(output, "item create");
+
+  return normalizeItem(unwrapItemResponse(data), vault.name);
+}
+
+export async function generateSshKeyItem(vault: Vault, title: string, comment?: string): Promise<Item> {
+  if (useMockData()) {
+    return {
+      shareId: vault.shareId,
+      itemId: `item-${Date.now()}`,
+      title,
+      type: "ssh_key",
+      vaultName: vault.name,
+      hasTotp: false,
+    };
   }
-  return first;
+
+  const args = ["item", "create", "ssh-key", "generate", "--share-id", vault.shareId, "--title", title];
+  args.push("--key-type", "ed25519");
+  if (comment) args.push("--comment", comment);
+  const output = await runCli([...args, "--output", "json"]);
+  const data = parseJson<unknown>(output, "item create");
+
+  return normalizeItem(unwrapItemResponse(data), vault.name);
 }
 
-export async function generatePassword(options: PasswordOptions): Promise<string> {
-  if (options.type === "random") {
-    const args = ["password", "generate", "random"];
-    if (options.length !== undefined) args.push("--length", options.length.toString());
-    if (options.includeNumbers !== undefined) args.push("--numbers", options.includeNumbers ? "true" : "false");
-    if (options.includeUppercase !== undefined) args.push("--uppercase", options.includeUppercase ? "true" : "false");
-    if (options.includeSymbols !== undefined) args.push("--symbols", options.includeSymbols ? "true" : "false");
-    return (await runCli(args)).trim();
+export async function updateItem(detail: ItemDetail, input: LoginItemInput): Promise<ItemDetail> {
+  if (useMockData()) {
+    const { title, note, customFields } = input;
+    if (detail.type !== "login") return { ...detail, title, note, customFields };
+    const { username, email, password, urls } = input;
+    return { ...detail, title, note, customFields, username, email, password, urls };
   }
 
-  const args = ["password", "generate", "memorable"];
-  if (options.words !== undefined) args.push("--words", options.words.toString());
-  if (options.separator !== undefined) args.push("--separator", options.separator);
-  if (options.capitalize !== undefined) args.push("--capitalize", options.capitalize ? "true" : "false");
-  if (options.includeNumbers !== undefined) args.push("--numbers", options.includeNumbers ? "true" : "false");
-  return (await runCli(args)).trim();
+  if (detail.revision !== undefined) {
+    const current = await getItem(detail.shareId, detail.itemId);
+    if (current.revision !== undefined && current.revision !== detail.revision) {
+      throw new PassCliError(
+        `This item was changed elsewhere (revision ${detail.revision} → ${current.revision}). Reload it and apply your changes again.`,
+        "conflict",
+      );
+    }
+  }
+
+  const userArgs = [detail.shareId, detail.itemId];
+  if (detail.revision !== undefined) userArgs.push(detail.revision.toString());
+  const args = ["item", "update", "--share-id", detail.shareId, "--item-id", detail.itemId];
+  if (detail.revision !== undefined) args.push("--revision", detail.revision.toString());
+  args.push("--from-stdin");
+  await runCli(args, {
+    stdin: buildItemPayload(input, detail.type === "login"),
+    secrets: getSecretValues(input),
+    userArgs,
+  });
+
+  return getItem(detail.shareId, detail.itemId);
+}
+
+export async function moveItem(item: Item, target: Vault): Promise<Item> {
+  if (useMockData()) {
+    return { ...item, shareId: target.shareId, vaultName: target.name };
+  }
+
+  const args = ["item", "move", "--share-id", item.shareId, "--item-id", item.itemId, "--to-share-id", target.shareId];
+  const output = await runCli([...args, "--output", "json"]);
+  const data = parseJson<unknown>(output, "item move");
+
+  return normalizeItem(unwrapItemResponse(data), target.name);
+}
+
+export async function duplicateItem(item: Item, target: Vault): Promise<Item> {
+  if (item.type !== "login") {
+    throw new PassCliError("Only login items can be duplicated.", "unknown");
+  }
+
+  const detail = await getItem(item.shareId, item.itemId);
+  if (detail.type !== "login") {
+    throw new PassCliError("Only login items can be duplicated.", "unknown");
+  }
+
+  return createLoginItem(target, {
+    title: detail.title,
+    username: detail.username,
+    email: detail.email,
+    password: detail.password,
+    urls: detail.urls,
+    note: detail.note,
+    totpUri: detail.totpUri,
+    customFields: detail.customFields,
+  });
+}
+
+export async function trashItem(item: Item): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["item", "trash", "--share-id", item.shareId, "--item-id", item.itemId]);
+}
+
+export async function restoreItem(item: Item): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["item", "untrash", "--share-id", item.shareId, "--item-id", item.itemId]);
+}
+
+export async function deleteItem(item: Item): Promise<void> {
+  if (useMockData()) return;
+  await runCli(["item", "delete", "--share-id", item.shareId, "--item-id", item.itemId]);
 }
 
 export async function passwordScore(password: string): Promise<PasswordScore> {
-  const output = await runCli(["password", "score", password, "--output", "json"]);
+  const output = await runCli(["password", "score", "--from-env", PASSWORD_ENV_VAR, "--output", "json"], {
+    env: { [PASSWORD_ENV_VAR]: password },
+  });
   const data = parseJson<Record<string, unknown>>(output, "password score");
 
   const numericScoreValue = data.numericScore ?? data.numeric_score;
@@ -0,0 +1,153 @@
+import { environment } from "@raycast/api";
+import { getRandomValues } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PasswordOptions } from "./types";
+import { assertNever } from "./utils";
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGITS = "0123456789";
+export const DEFAULT_SYMBOLS = "!@#$%^&*-_=+?";
+const AMBIGUOUS = new Set("Il1|O0o".split(""));
+
+const DEFAULT_LENGTH = 20;
+const DEFAULT_PIN_LENGTH = 6;
+const DEFAULT_WORDS = 4;
+
+let wordList: string[] | undefined;
+
+export function getWordList(): string[] {
+  if (!wordList) {
+    const raw = readFileSync(join(environment.assetsPath, "eff-large-wordlist.txt"), "utf8");
+    wordList = raw.split("\n").filter((word) => word.length > 0);
+  }
+  return wordList;
+}
+
+function randomIndex(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+}
+
+function pick(chars: string): string {
+  return chars[randomIndex(chars.length)];
+}
+
+function shuffle<T>(values: T[]): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function withoutAmbiguous(chars: string, excludeAmbiguous?: boolean): string {
+  return excludeAmbiguous
+    ? chars
+        .split("")
+        .filter((c) => !AMBIGUOUS.has(c))
+        .join("")
+    : chars;
+}
+
+export interface CharacterClass {
+  name: string;
+  chars: string;
+  min: number;
+}
+
+export function getSymbolSetError(symbols?: string): string | undefined {
+  return symbols && /[A-Za-z0-9\s]/.test(symbols) ? "Symbols can't include letters, digits or spaces" : undefined;
+}
+
+function buildCharacterClasses(options: PasswordOptions): CharacterClass[] {
+  const symbols = [...new Set((options.symbols || DEFAULT_SYMBOLS).split(""))].join("");
+  const classes: (CharacterClass | null)[] = [
+    { name: "lowercase letters", chars: withoutAmbiguous(LOWERCASE, options.excludeAmbiguous), min: 0 },
+    options.includeUppercase !== false
+      ? {
+          name: "uppercase letters",
+          chars: withoutAmbiguous(UPPERCASE, options.excludeAmbiguous),
+          min: options.minUppercase ?? 1,
+        }
+      : null,
+    options.includeNumbers !== false
+      ? { name: "digits", chars: withoutAmbiguous(DIGITS, options.excludeAmbiguous), min: options.minNumbers ?? 1 }
+      : null,
+    options.includeSymbols !== false
+      ? { name: "symbols", chars: withoutAmbiguous(symbols, options.excludeAmbiguous), min: options.minSymbols ?? 1 }
+      : null,
+  ];
+  return classes.filter((c): c is CharacterClass => c !== null);
+}
+
+export function getCharacterClasses(options: PasswordOptions): CharacterClass[] {
+  return buildCharacterClasses(options).filter((c) => c.chars.length > 0);
+}
+
+function generateRandom(options: PasswordOptions): string {
+  const length = options.length ?? DEFAULT_LENGTH;
+
+  const symbolSetError = getSymbolSetError(options.includeSymbols !== false ? options.symbols : undefined);
+  if (symbolSetError) throw new Error(`${symbolSetError}.`);
+
+  const emptyClass = buildCharacterClasses(options).find((c) => c.chars.length === 0 && c.min > 0);
+  if (emptyClass) {
+    throw new Error(
+      `No ${emptyClass.name} are left after excluding look-alike characters, so the minimum of ${emptyClass.min} can't be met.`,
+    );
+  }
+
+  const classes = getCharacterClasses(options);
+
+  const required = classes.reduce((sum, c) => sum + c.min, 0);
+  if (required > length) {
+    throw new Error(`Minimum character counts (${required}) exceed the password length (${length}).`);
+  }
+
+  const chars = classes.flatMap((c) => Array.from({ length: c.min }, () => pick(c.chars)));
+  const allChars = classes.map((c) => c.chars).join("");
+  while (chars.length < length) {
+    chars.push(pick(allChars));
+  }
+
+  return shuffle(chars).join("");
+}
+
+function generatePassphrase(options: PasswordOptions): string {
+  const words = getWordList();
+  const selected = Array.from({ length: options.words ?? DEFAULT_WORDS }, () => {
+    const word = words[randomIndex(words.length)];
+    return options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+  });
+
+  if (options.includeNumbers) {
+    const index = randomIndex(selected.length);
+    selected[index] = `${selected[index]}${pick(DIGITS)}`;
+  }
+
+  return selected.join(options.separator ?? "-");
+}
+
+function generatePin(options: PasswordOptions): string {
+  return Array.from({ length: options.length ?? DEFAULT_PIN_LENGTH }, () => pick(DIGITS)).join("");
+}
+
+export function generatePassword(options: PasswordOptions): string {
+  switch (options.type) {
+    case "random":
+      return generateRandom(options);
+    case "passphrase":
+      return generatePassphrase(options);
+    case "pin":
+      return generatePin(options);
+    default:
+      return assertNever(options.type);
+  }
+}
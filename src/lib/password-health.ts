@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { getBreachCount, getBreachFilePath } from "./hibp";
+import { getItem, passwordScore } from "./pass-cli";
+import { Item, PasswordHealthEntry, PasswordHealthReport, PasswordScore } from "./types";
+
+const WEAK_SCORES = new Set(["weak", "too weak", "vulnerable"]);
+const STALE_ITEM_DAYS = 365;
+const STALE_ITEM_AGE_MS = STALE_ITEM_DAYS * 24 * 60 * 60 * 1000;
+const CHECK_CONCURRENCY = 4;
+
+export const STALE_ITEM_LABEL = `Not Modified in ${STALE_ITEM_DAYS} Days`;
+
+export function isWeakScore(score?: PasswordScore): boolean {
+  return score !== undefined && WEAK_SCORES.has(score.passwordScore.trim().toLowerCase());
+}
+
+// pass-cli only reports when the item as a whole was last modified, not when its password changed.
+export function isStaleItem(item: Item, now = Date.now()): boolean {
+  return item.modifiedAt !== undefined && now - item.modifiedAt > STALE_ITEM_AGE_MS;
+}
+
+export async function checkPasswordHealth(
+  items: Item[],
+  onProgress?: (checked: number, total: number) => void,
+): Promise<PasswordHealthReport> {
+  const logins = items.filter((item) => item.type === "login");
+  const entries: PasswordHealthEntry[] = new Array(logins.length);
+  const entriesByHash = new Map<string, PasswordHealthEntry[]>();
+  const scoresByHash = new Map<string, Promise<PasswordScore | undefined>>();
+  const breachCountsByHash = new Map<string, Promise<number | undefined>>();
+  const breachFilePath = getBreachFilePath();
+  let nextIndex = 0;
+  let checked = 0;
+
+  async function checkItem(item: Item): Promise<PasswordHealthEntry> {
+    const detail = await getItem(item.shareId, item.itemId);
+    const entry: PasswordHealthEntry = {
+      item: { ...item, modifiedAt: detail.modifiedAt ?? item.modifiedAt },
+      reuseCount: 1,
+    };
+
+    const password = detail.type === "login" ? detail.password : undefined;
+    if (!password) return entry;
+
+    const hash = createHash("sha256").update(password).digest("hex");
+    entriesByHash.set(hash, [...(entriesByHash.get(hash) ?? []), entry]);
+
+    // Reused passwords share one score lookup instead of spawning pass-cli again.
+    if (!scoresByHash.has(hash)) {
+      scoresByHash.set(
+        hash,
+        passwordScore(password).catch(() => undefined),
+      );
+    }
+    entry.score = await scoresByHash.get(hash);
+
+    if (!breachCountsByHash.has(hash)) {
+      breachCountsByHash.set(hash, getBreachCount(password, breachFilePath));
+    }
+    try {
+      entry.breachCount = await breachCountsByHash.get(hash);
+    } catch (error: unknown) {
+      entry.breachError = error instanceof Error ? error.message : "Breached password lookup failed";
+    }
+
+    return entry;
+  }
+
+  async function worker() {
+    while (nextIndex < logins.length) {
+      const index = nextIndex++;
+      const item = logins[index];
+      try {
+        entries[index] = await checkItem(item);
+      } catch (error: unknown) {
+        const checkError = error instanceof Error ? error.message : "Password check failed";
+        entries[index] = { item, reuseCount: 1, checkError };
+      }
+      onProgress?.(++checked, logins.length);
+    }
+  }
+
+  onProgress?.(0, logins.length);
+  await Promise.all(Array.from({ length: Math.min(CHECK_CONCURRENCY, logins.length) }, worker));
+
+  let reuseGroup = 0;
+  for (const group of entriesByHash.values()) {
+    if (group.length < 2) continue;
+    reuseGroup++;
+    for (const entry of group) {
+      entry.reuseGroup = reuseGroup;
+      entry.reuseCount = group.length;
+    }
+  }
+
+  return { checkedAt: Date.now(), entries };
+}
+
+export function getReusedEntries(entries: PasswordHealthEntry[]): PasswordHealthEntry[] {
+  return entries
+    .filter((entry) => entry.reuseGroup !== undefined)
+    .sort((a, b) => (a.reuseGroup ?? 0) - (b.reuseGroup ?? 0));
+}
+
+export function getReuseSiblings(entries: PasswordHealthEntry[], entry: PasswordHealthEntry): Item[] {
+  return entries
+    .filter((other) => other !== entry && other.reuseGroup !== undefined && other.reuseGroup === entry.reuseGroup)
+    .map((other) => other.item);
+}
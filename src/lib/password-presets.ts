@@ -0,0 +1,48 @@
+import { LocalStorage } from "@raycast/api";
+import { PasswordPreset } from "./types";
+
+const PRESETS_KEY = "proton_pass_password_presets";
+const DEFAULT_PRESET_KEY = "proton_pass_default_password_preset";
+
+export async function getPasswordPresets(): Promise<PasswordPreset[]> {
+  try {
+    const raw = await LocalStorage.getItem<string>(PRESETS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as PasswordPreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function setPasswordPresets(presets: PasswordPreset[]): Promise<void> {
+  await LocalStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+export async function savePasswordPreset(title: string, options: PasswordPreset["options"]): Promise<PasswordPreset> {
+  const presets = await getPasswordPresets();
+  const existing = presets.find((preset) => preset.title.toLowerCase() === title.toLowerCase());
+  const preset: PasswordPreset = { id: existing?.id ?? `preset-${Date.now()}`, title, options };
+
+  await setPasswordPresets(existing ? presets.map((p) => (p.id === preset.id ? preset : p)) : [...presets, preset]);
+  return preset;
+}
+
+export async function deletePasswordPreset(id: string): Promise<void> {
+  const presets = await getPasswordPresets();
+  await setPasswordPresets(presets.filter((preset) => preset.id !== id));
+  if ((await getDefaultPresetId()) === id) {
+    await LocalStorage.removeItem(DEFAULT_PRESET_KEY);
+  }
+}
+
+export async function getDefaultPresetId(): Promise<string | undefined> {
+  return LocalStorage.getItem<string>(DEFAULT_PRESET_KEY);
+}
+
+export async function setDefaultPresetId(id: string | undefined): Promise<void> {
+  if (id) {
+    await LocalStorage.setItem(DEFAULT_PRESET_KEY, id);
+  } else {
+    await LocalStorage.removeItem(DEFAULT_PRESET_KEY);
+  }
+}
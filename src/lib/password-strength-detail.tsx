@@ -0,0 +1,92 @@
+import { Detail, Icon } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { passwordScore } from "./pass-cli";
+import { PasswordOptions, PasswordScore } from "./types";
+import { getPasswordStrengthIcon, getPasswordStrengthLabel } from "./utils";
+import {
+  estimatePasswordEntropy,
+  getGeneratedEntropy,
+  estimateCrackTimes,
+  formatCrackTime,
+  explainPenalty,
+} from "./password-strength";
+
+interface PasswordStrengthDetailProps {
+  password: string;
+  options?: PasswordOptions;
+  navigationTitle?: string;
+}
+
+export function PasswordStrengthDetail({ password, options, navigationTitle }: PasswordStrengthDetailProps) {
+  const [score, setScore] = useState<PasswordScore | null>(null);
+  const [scoreError, setScoreError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadScore();
+  }, []);
+
+  async function loadScore() {
+    try {
+      setScore(await passwordScore(password));
+    } catch (error: unknown) {
+      setScoreError(error instanceof Error ? error.message : "An unknown error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const entropy = options ? getGeneratedEntropy(options) : estimatePasswordEntropy(password);
+  const crackTimes = estimateCrackTimes(entropy);
+
+  const markdownParts: string[] = [];
+  markdownParts.push(`# Password Strength\n`);
+  markdownParts.push(
+    `**Estimated entropy:** ${Math.round(entropy)} bits ${
+      options ? "(from the generator settings)" : "(from length and character classes)"
+    }\n`,
+  );
+
+  markdownParts.push(`## Time to Crack\n`);
+  markdownParts.push(`| Attack | Estimated Time |`);
+  markdownParts.push(`| --- | --- |`);
+  crackTimes.forEach((estimate) => {
+    markdownParts.push(`| **${estimate.scenario}** — ${estimate.description} | ${formatCrackTime(estimate.seconds)} |`);
+  });
+  markdownParts.push(
+    options
+      ? `\n_Average time to guess, assuming the attacker knows exactly how the password was generated._\n`
+      : `\n_Average time to guess by brute force. Passwords built from words or patterns fall much faster._\n`,
+  );
+
+  markdownParts.push(`## Penalties\n`);
+  if (score?.penalties && score.penalties.length > 0) {
+    score.penalties.forEach((penalty) => markdownParts.push(`- **${penalty}:** ${explainPenalty(penalty)}`));
+  } else if (score) {
+    markdownParts.push(`No penalties reported.`);
+  } else if (scoreError) {
+    markdownParts.push(`Strength score unavailable: ${scoreError}`);
+  }
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={navigationTitle ?? "Password Strength"}
+      markdown={markdownParts.join("\n")}
+      metadata={
+        <Detail.Metadata>
+          {score && (
+            <Detail.Metadata.Label
+              title="Score"
+              text={`${getPasswordStrengthLabel(score.passwordScore)} (${Math.round(score.numericScore)})`}
+              icon={getPasswordStrengthIcon(score.passwordScore)}
+            />
+          )}
+          <Detail.Metadata.Label title="Entropy" text={`${Math.round(entropy)} bits`} icon={Icon.Gauge} />
+          <Detail.Metadata.Label title="Length" text={`${[...password].length} characters`} />
+          {score?.penalties && <Detail.Metadata.Label title="Penalties" text={`${score.penalties.length}`} />}
+        </Detail.Metadata>
+      }
+    />
+  );
+}
@@ -0,0 +1,118 @@
+import { PasswordOptions } from "./types";
+import { getCharacterClasses, getWordList } from "./password-generator";
+import { assertNever } from "./utils";
+
+export interface CrackTimeEstimate {
+  scenario: string;
+  description: string;
+  seconds: number;
+}
+
+const ATTACK_SCENARIOS = [
+  {
+    scenario: "Online, throttled",
+    description: "A login form that rate-limits attempts (100 guesses per hour)",
+    guessesPerSecond: 100 / 3600,
+  },
+  {
+    scenario: "Online, unthrottled",
+    description: "A login endpoint without rate limiting (10 guesses per second)",
+    guessesPerSecond: 10,
+  },
+  {
+    scenario: "Offline, slow hash",
+    description: "A stolen database hashed with bcrypt, scrypt or Argon2 (10 thousand guesses per second)",
+    guessesPerSecond: 1e4,
+  },
+  {
+    scenario: "Offline, fast hash",
+    description: "A stolen database hashed with MD5 or SHA-1 on GPUs (10 billion guesses per second)",
+    guessesPerSecond: 1e10,
+  },
+];
+
+const PENALTY_EXPLANATIONS: Record<string, string> = {
+  short: "The password is shorter than recommended; every extra character multiplies the search space.",
+  tooshort: "The password is shorter than recommended; every extra character multiplies the search space.",
+  nolowercase: "No lowercase letters, which shrinks the character pool an attacker has to search.",
+  nouppercase: "No uppercase letters, which shrinks the character pool an attacker has to search.",
+  nonumbers: "No digits, which shrinks the character pool an attacker has to search.",
+  nodigits: "No digits, which shrinks the character pool an attacker has to search.",
+  nosymbols: "No symbols, which shrinks the character pool an attacker has to search.",
+  consecutive: "Repeated characters in a row are among the first patterns attackers try.",
+  repeated: "Repeated characters in a row are among the first patterns attackers try.",
+  progressive: "Sequences such as abc or 123 are among the first patterns attackers try.",
+  sequence: "Sequences such as abc or 123 are among the first patterns attackers try.",
+  commonpassword: "The password appears in lists of commonly used passwords and is guessed almost instantly.",
+  common: "The password appears in lists of commonly used passwords and is guessed almost instantly.",
+  dictionaryword: "The password is built from a dictionary word, which attackers try early.",
+  keyboardpattern: "Keyboard walks such as qwerty are among the first patterns attackers try.",
+};
+
+export function explainPenalty(penalty: string): string {
+  const key = penalty.toLowerCase().replace(/[^a-z]/g, "");
+  return PENALTY_EXPLANATIONS[key] ?? "Reported by pass-cli as a weakness in this password.";
+}
+
+function getCharacterPoolSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[!-/:-@[-`{-~ ]/.test(password)) size += 33;
+  if (/[^\x20-\x7e]/.test(password)) size += 100;
+  return size;
+}
+
+export function estimatePasswordEntropy(password: string): number {
+  const length = [...password].length;
+  const poolSize = getCharacterPoolSize(password);
+  return poolSize > 0 ? length * Math.log2(poolSize) : 0;
+}
+
+export function getGeneratedEntropy(options: PasswordOptions): number {
+  switch (options.type) {
+    case "random": {
+      const poolSize = getCharacterClasses(options).reduce((sum, c) => sum + c.chars.length, 0);
+      return (options.length ?? 0) * Math.log2(poolSize);
+    }
+    case "passphrase": {
+      const words = options.words ?? 0;
+      const numberBits = options.includeNumbers ? Math.log2(words * 10) : 0;
+      return words * Math.log2(getWordList().length) + numberBits;
+    }
+    case "pin":
+      return (options.length ?? 0) * Math.log2(10);
+    default:
+      return assertNever(options.type);
+  }
+}
+
+export function estimateCrackTimes(entropyBits: number): CrackTimeEstimate[] {
+  const averageGuesses = Math.pow(2, Math.max(entropyBits - 1, 0));
+  return ATTACK_SCENARIOS.map(({ scenario, description, guessesPerSecond }) => ({
+    scenario,
+    description,
+    seconds: averageGuesses / guessesPerSecond,
+  }));
+}
+
+const DURATION_UNITS: [string, number][] = [
+  ["century", 100 * 365.25 * 86400],
+  ["year", 365.25 * 86400],
+  ["month", 30.44 * 86400],
+  ["day", 86400],
+  ["hour", 3600],
+  ["minute", 60],
+  ["second", 1],
+];
+
+export function formatCrackTime(seconds: number): string {
+  if (seconds < 1) return "Less than a second";
+  if (seconds > 1e6 * DURATION_UNITS[1][1]) return "Millions of years or more";
+
+  const [unit, unitSeconds] = DURATION_UNITS.find(([, s]) => seconds >= s) ?? DURATION_UNITS[DURATION_UNITS.length - 1];
+  const value = Math.round(seconds / unitSeconds);
+  const plural = unit === "century" ? "centuries" : `${unit}s`;
+  return `${value} ${value === 1 ? unit : plural}`;
+}
@@ -0,0 +1,168 @@
+import { Item, ItemType } from "./types";
+import { assertNever, getUrlHost } from "./utils";
+
+export type SearchFilter =
+  | { key: "type"; value: ItemType }
+  | { key: "has"; value: SearchFeature }
+  | { key: "vault" | "user" | "email" | "url" | "title"; value: string };
+
+type SearchFeature = "totp" | "username" | "email" | "url";
+
+export interface SearchQueryError {
+  message: string;
+  searchedAsText: boolean;
+}
+
+export interface SearchQuery {
+  filters: SearchFilter[];
+  terms: string[];
+  errors: SearchQueryError[];
+}
+
+export const SEARCH_FILTER_KEYS = ["type", "vault", "has", "user", "email", "url", "title"] as const;
+
+type SearchFilterKey = (typeof SEARCH_FILTER_KEYS)[number];
+
+const TYPE_ALIASES: Record<string, ItemType> = {
+  login: "login",
+  note: "note",
+  card: "credit_card",
+  credit_card: "credit_card",
+  identity: "identity",
+  alias: "alias",
+  ssh: "ssh_key",
+  ssh_key: "ssh_key",
+  wifi: "wifi",
+};
+
+const FEATURE_ALIASES: Record<string, SearchFeature> = {
+  totp: "totp",
+  "2fa": "totp",
+  otp: "totp",
+  username: "username",
+  user: "username",
+  email: "email",
+  url: "url",
+  urls: "url",
+};
+
+function tokenize(text: string): string[] {
+  return [...text.matchAll(/(?:[^\s"]+|"[^"]*")+/g)].map((match) => match[0].replace(/"/g, ""));
+}
+
+function isSearchFilterKey(key: string): key is SearchFilterKey {
+  return (SEARCH_FILTER_KEYS as readonly string[]).includes(key);
+}
+
+function parseFilter(key: SearchFilterKey, value: string): SearchFilter | string {
+  if (!value) return `Missing value for "${key}:"`;
+
+  switch (key) {
+    case "type": {
+      const type = TYPE_ALIASES[value.toLowerCase()];
+      return type ? { key, value: type } : `Unknown type "${value}". Use ${Object.keys(TYPE_ALIASES).join(", ")}`;
+    }
+    case "has": {
+      const feature = FEATURE_ALIASES[value.toLowerCase()];
+      return feature ? { key, value: feature } : `Unknown feature "${value}". Use totp, username, email or url`;
+    }
+    case "vault":
+    case "user":
+    case "email":
+    case "url":
+    case "title":
+      return { key, value: value.toLowerCase() };
+    default:
+      return assertNever(key);
+  }
+}
+
+export function parseSearchQuery(text: string): SearchQuery {
+  const query: SearchQuery = { filters: [], terms: [], errors: [] };
+
+  for (const token of tokenize(text)) {
+    const match = token.match(/^([a-z_]+):(?!\/\/)(.*)$/i);
+    if (!match) {
+      query.terms.push(token.toLowerCase());
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    if (!isSearchFilterKey(key)) {
+      query.terms.push(token.toLowerCase());
+      query.errors.push({ message: `Unknown filter "${key}:"`, searchedAsText: true });
+      continue;
+    }
+
+    const filter = parseFilter(key, match[2]);
+    if (typeof filter === "string") {
+      query.errors.push({ message: filter, searchedAsText: false });
+    } else {
+      query.filters.push(filter);
+    }
+  }
+
+  return query;
+}
+
+function includes(value: string | undefined, search: string): boolean {
+  return value !== undefined && value.toLowerCase().includes(search);
+}
+
+function hasFeature(item: Item, feature: SearchFeature): boolean {
+  switch (feature) {
+    case "totp":
+      return item.hasTotp;
+    case "username":
+      return Boolean(item.username);
+    case "email":
+      return Boolean(item.email);
+    case "url":
+      return (item.urls ?? []).length > 0;
+    default:
+      return assertNever(feature);
+  }
+}
+
+function matchesFilter(item: Item, filter: SearchFilter): boolean {
+  switch (filter.key) {
+    case "type":
+      return item.type === filter.value;
+    case "has":
+      return hasFeature(item, filter.value);
+    case "vault":
+      return includes(item.vaultName, filter.value);
+    case "user":
+      return includes(item.username, filter.value) || includes(item.email, filter.value);
+    case "email":
+      return includes(item.email, filter.value);
+    case "url":
+      return (item.urls ?? []).some((url) => includes(getUrlHost(url) ?? url, filter.value));
+    case "title":
+      return includes(item.title, filter.value);
+    default:
+      return assertNever(filter);
+  }
+}
+
+function matchesTerm(item: Item, term: string): boolean {
+  return [item.title, item.username, item.email, item.vaultName, ...(item.urls ?? [])].some((value) =>
+    includes(value, term),
+  );
+}
+
+export function filterItems(items: Item[], query: SearchQuery, getScore?: (item: Item) => number): Item[] {
+  const matches = items.filter(
+    (item) =>
+      query.filters.every((filter) => matchesFilter(item, filter)) &&
+      query.terms.every((term) => matchesTerm(item, term)),
+  );
+
+  const titleRank = (item: Item) => {
+    if (query.terms.length === 0) return 0;
+    if (query.terms.every((term) => item.title.toLowerCase().startsWith(term))) return 0;
+    return query.terms.every((term) => includes(item.title, term)) ? 1 : 2;
+  };
+  const score = (item: Item) => getScore?.(item) ?? 0;
+  return matches.sort((a, b) => titleRank(a) - titleRank(b) || score(b) - score(a));
+}
@@ -0,0 +1,81 @@
+import { execFile, spawn } from "child_process";
+import { createHash } from "crypto";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+const SSH_ADD_TIMEOUT_MS = 15_000;
+
+export interface SshPublicKeyInfo {
+  keyType: string;
+  fingerprint: string;
+  comment?: string;
+}
+
+export function parsePublicKey(publicKey: string): SshPublicKeyInfo | undefined {
+  const [keyType, blob, ...commentParts] = publicKey.trim().split(/\s+/);
+  if (!keyType || !blob) return undefined;
+
+  const decoded = Buffer.from(blob, "base64");
+  if (decoded.length < 4) return undefined;
+
+  const typeLength = decoded.readUInt32BE(0);
+  if (4 + typeLength > decoded.length) return undefined;
+  if (decoded.toString("latin1", 4, 4 + typeLength) !== keyType) return undefined;
+
+  const digest = createHash("sha256").update(decoded).digest("base64").replace(/=+$/, "");
+  const comment = commentParts.join(" ");
+
+  return {
+    keyType,
+    fingerprint: `SHA256:${digest}`,
+    comment: comment.length > 0 ? comment : undefined,
+  };
+}
+
+async function getAgentSocket(): Promise<string | undefined> {
+  if (process.env.SSH_AUTH_SOCK) return process.env.SSH_AUTH_SOCK;
+  if (process.platform !== "darwin") return undefined;
+
+  try {
+    const { stdout } = await execFileAsync("launchctl", ["getenv", "SSH_AUTH_SOCK"]);
+    const socket = stdout.trim();
+    return socket.length > 0 ? socket : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function addKeyToAgent(privateKey: string, lifetimeSeconds?: number): Promise<void> {
+  const socket = await getAgentSocket();
+  if (!socket) {
+    throw new Error("No ssh-agent found. Make sure SSH_AUTH_SOCK is set for your session.");
+  }
+
+  const args = lifetimeSeconds ? ["-t", lifetimeSeconds.toString(), "-"] : ["-"];
+  const key = privateKey.endsWith("\n") ? privateKey : `${privateKey}\n`;
+
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn("ssh-add", args, {
+      env: { ...process.env, SSH_AUTH_SOCK: socket, SSH_ASKPASS_REQUIRE: "never" },
+      stdio: ["pipe", "ignore", "pipe"],
+      timeout: SSH_ADD_TIMEOUT_MS,
+    });
+
+    let stderr = "";
+    child.stderr.on("data", (chunk) => (stderr += chunk.toString()));
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(error.code === "ENOENT" ? new Error("ssh-add not found on PATH.") : error);
+    });
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(stderr.trim() || `ssh-add exited with code ${code}`));
+      }
+    });
+
+    child.stdin.on("error", () => undefined);
+    child.stdin.end(key);
+  });
+}
@@ -0,0 +1,64 @@
+import { LocalStorage } from "@raycast/api";
+import { Item } from "./types";
+import { getItemKey } from "./utils";
+
+const PINNED_TOTP_KEY = "proton_pass_pinned_totp";
+const PINNED_TOTP_ITEMS_KEY = "proton_pass_pinned_totp_items";
+
+export async function getPinnedTotpKeys(): Promise<string[]> {
+  try {
+    const raw = await LocalStorage.getItem<string>(PINNED_TOTP_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+async function setPinnedTotpKeys(keys: string[]): Promise<void> {
+  await LocalStorage.setItem(PINNED_TOTP_KEY, JSON.stringify(keys));
+}
+
+// Unlike the item cache, these entries keep their TOTP secrets so the menu bar can generate codes without
+// pass-cli. Raycast encrypts LocalStorage, and only pinned items are stored.
+export async function getPinnedTotpItems(): Promise<Record<string, Item>> {
+  try {
+    const raw = await LocalStorage.getItem<string>(PINNED_TOTP_ITEMS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, Item>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function updatePinnedTotpItems(update: (items: Record<string, Item>) => Record<string, Item>): Promise<void> {
+  await LocalStorage.setItem(PINNED_TOTP_ITEMS_KEY, JSON.stringify(update(await getPinnedTotpItems())));
+}
+
+export async function savePinnedTotpItems(items: Item[]): Promise<void> {
+  const keys = await getPinnedTotpKeys();
+  const pinned = items.filter((item) => keys.includes(getItemKey(item)) && (item.totpUri || item.totpFields?.length));
+  if (pinned.length === 0) return;
+  await updatePinnedTotpItems((current) => ({
+    ...current,
+    ...Object.fromEntries(pinned.map((item) => [getItemKey(item), item])),
+  }));
+}
+
+export async function pinTotpItem(item: Item): Promise<string[]> {
+  const keys = await getPinnedTotpKeys();
+  const key = getItemKey(item);
+  const next = keys.includes(key) ? keys : [...keys, key];
+  await setPinnedTotpKeys(next);
+  await savePinnedTotpItems([item]);
+  return next;
+}
+
+export async function unpinTotpItem(item: Pick<Item, "shareId" | "itemId">): Promise<string[]> {
+  const keys = await getPinnedTotpKeys();
+  const key = getItemKey(item);
+  const next = keys.filter((k) => k !== key);
+  await setPinnedTotpKeys(next);
+  await updatePinnedTotpItems((current) => Object.fromEntries(Object.entries(current).filter(([k]) => k !== key)));
+  return next;
+}
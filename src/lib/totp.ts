@@ -0,0 +1,118 @@
+import { createHmac } from "crypto";
+import { TotpCode } from "./types";
+
+export type TotpAlgorithm = "SHA1" | "SHA256" | "SHA512";
+
+export interface TotpConfig {
+  secret: Buffer;
+  algorithm: TotpAlgorithm;
+  digits: number;
+  period: number;
+  encoder?: "steam";
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEAM_ALPHABET = "23456789BCDFGHJKMNPQRTVWXY";
+const ALGORITHMS: TotpAlgorithm[] = ["SHA1", "SHA256", "SHA512"];
+const DEFAULT_DIGITS = 6;
+const STEAM_DIGITS = 5;
+export const DEFAULT_PERIOD = 30;
+export const PRIMARY_TOTP_NAME = "totp";
+const MIN_DIGITS = 6;
+const MAX_DIGITS = 8;
+
+function decodeBase32(input: string): Buffer | undefined {
+  const cleaned = input.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+  if (cleaned.length === 0) return undefined;
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return undefined;
+
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return bytes.length > 0 ? Buffer.from(bytes) : undefined;
+}
+
+function parseInteger(value: string | null, fallback: number): number {
+  if (value === null || value.trim() === "") return fallback;
+  return /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN;
+}
+
+export function parseTotpUri(uri: string): TotpConfig | undefined {
+  const trimmed = uri.trim();
+
+  if (!trimmed.toLowerCase().startsWith("otpauth://")) {
+    const secret = decodeBase32(trimmed);
+    return secret ? { secret, algorithm: "SHA1", digits: DEFAULT_DIGITS, period: DEFAULT_PERIOD } : undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return undefined;
+  }
+  if (url.hostname.toLowerCase() !== "totp") return undefined;
+
+  const secret = decodeBase32(url.searchParams.get("secret") ?? "");
+  const algorithm = (url.searchParams.get("algorithm") ?? "SHA1").toUpperCase().replace("-", "") as TotpAlgorithm;
+  const period = parseInteger(url.searchParams.get("period"), DEFAULT_PERIOD);
+  const isSteam =
+    url.searchParams.get("encoder")?.toLowerCase() === "steam" ||
+    url.searchParams.get("issuer")?.toLowerCase() === "steam";
+
+  if (!secret || !ALGORITHMS.includes(algorithm) || !(period > 0)) return undefined;
+  if (isSteam) {
+    return { secret, algorithm, digits: STEAM_DIGITS, period, encoder: "steam" };
+  }
+
+  const digits = parseInteger(url.searchParams.get("digits"), DEFAULT_DIGITS);
+  if (!(digits >= MIN_DIGITS && digits <= MAX_DIGITS)) return undefined;
+
+  return { secret, algorithm, digits, period };
+}
+
+function encodeSteam(binary: number, digits: number): string {
+  let code = "";
+  let value = binary;
+  for (let i = 0; i < digits; i++) {
+    code += STEAM_ALPHABET[value % STEAM_ALPHABET.length];
+    value = Math.floor(value / STEAM_ALPHABET.length);
+  }
+  return code;
+}
+
+function generateHotp(config: Omit<TotpConfig, "period">, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(config.algorithm.toLowerCase(), config.secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  if (config.encoder === "steam") return encodeSteam(binary, config.digits);
+  return (binary % 10 ** config.digits).toString().padStart(config.digits, "0");
+}
+
+export function generateTotp(config: TotpConfig, timestamp: number = Date.now()): TotpCode {
+  const counter = Math.floor(timestamp / 1000 / config.period);
+  return {
+    code: generateHotp(config, counter),
+    period: config.period,
+    expiresAt: getTotpExpiry(config.period, timestamp),
+  };
+}
+
+export function getTotpExpiry(period: number = DEFAULT_PERIOD, timestamp: number = Date.now()): number {
+  return (Math.floor(timestamp / 1000 / period) + 1) * period * 1000;
+}
@@ -4,7 +4,7 @@ export type VaultRole = "owner" | "manager" | "editor" | "viewer";
 
 export type ItemType = "login" | "note" | "credit_card" | "identity" | "alias" | "ssh_key" | "wifi";
 
-export type PasswordType = "random" | "passphrase";
+export type PasswordType = "random" | "passphrase" | "pin";
 
 export interface Vault {
   shareId: string;
@@ -13,6 +13,25 @@ export interface Vault {
   role: VaultRole;
 }
 
+export interface VaultMember {
+  memberShareId: string;
+  email: string;
+  name?: string;
+  role: VaultRole;
+  isCurrentUser: boolean;
+}
+
+export interface VaultInvite {
+  inviteId: string;
+  email: string;
+  role: VaultRole;
+}
+
+export interface VaultMembers {
+  members: VaultMember[];
+  invites: VaultInvite[];
+}
+
 export interface Item {
   shareId: string;
   itemId: string;
@@ -21,19 +40,139 @@ export interface Item {
   vaultName: string;
   username?: string;
   email?: string;
+  urls?: string[];
   hasTotp: boolean;
+  totpUri?: string;
+  totpFields?: TotpField[];
+  modifiedAt?: number;
+}
+
+export interface TotpField {
+  name: string;
+  uri: string;
+}
+
+export interface TotpCode {
+  code: string;
+  period: number;
+  expiresAt: number;
+}
+
+export interface NamedTotpCode extends TotpCode {
+  name: string;
 }
 
 export interface CustomField {
   name: string;
   value: string;
-  type: "text" | "hidden";
+  type: "text" | "hidden" | "totp";
+}
+
+export interface CreditCardDetails {
+  cardholderName?: string;
+  cardType?: string;
+  number?: string;
+  expirationDate?: string;
+  verificationNumber?: string;
+  pin?: string;
+}
+
+export interface IdentityDetails {
+  fullName?: string;
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  birthdate?: string;
+  gender?: string;
+  email?: string;
+  phoneNumber?: string;
+  secondPhoneNumber?: string;
+  website?: string;
+  streetAddress?: string;
+  floor?: string;
+  city?: string;
+  stateOrProvince?: string;
+  zipOrPostalCode?: string;
+  county?: string;
+  countryOrRegion?: string;
+  company?: string;
+  jobTitle?: string;
+  workEmail?: string;
+  workPhoneNumber?: string;
+  socialSecurityNumber?: string;
+  passportNumber?: string;
+  licenseNumber?: string;
+}
+
+export interface SshKeyDetails {
+  privateKey?: string;
+  publicKey?: string;
+}
+
+export interface WifiDetails {
+  ssid?: string;
+  password?: string;
+  security?: string;
+}
+
+export interface BaseItemDetail extends Item {
+  revision?: number;
+  note?: string;
+  customFields?: CustomField[];
 }
 
-export interface ItemDetail extends Item {
+export interface LoginItemDetail extends BaseItemDetail {
+  type: "login";
+  password?: string;
+  urls?: string[];
+}
+
+export interface NoteItemDetail extends BaseItemDetail {
+  type: "note";
+}
+
+export interface CreditCardItemDetail extends BaseItemDetail {
+  type: "credit_card";
+  creditCard: CreditCardDetails;
+}
+
+export interface IdentityItemDetail extends BaseItemDetail {
+  type: "identity";
+  identity: IdentityDetails;
+}
+
+export interface AliasItemDetail extends BaseItemDetail {
+  type: "alias";
+  aliasEmail?: string;
+}
+
+export interface SshKeyItemDetail extends BaseItemDetail {
+  type: "ssh_key";
+  sshKey: SshKeyDetails;
+}
+
+export interface WifiItemDetail extends BaseItemDetail {
+  type: "wifi";
+  wifi: WifiDetails;
+}
+
+export type ItemDetail =
+  | LoginItemDetail
+  | NoteItemDetail
+  | CreditCardItemDetail
+  | IdentityItemDetail
+  | AliasItemDetail
+  | SshKeyItemDetail
+  | WifiItemDetail;
+
+export interface LoginItemInput {
+  title: string;
+  username?: string;
+  email?: string;
   password?: string;
   urls?: string[];
   note?: string;
+  totpUri?: string;
   customFields?: CustomField[];
 }
 
@@ -46,6 +185,17 @@ export interface PasswordOptions {
   includeSymbols?: boolean;
   separator?: string;
   capitalize?: boolean;
+  excludeAmbiguous?: boolean;
+  symbols?: string;
+  minNumbers?: number;
+  minSymbols?: number;
+  minUppercase?: number;
+}
+
+export interface PasswordPreset {
+  id: string;
+  title: string;
+  options: PasswordOptions;
 }
 
 export interface PasswordScore {
@@ -54,12 +204,28 @@ export interface PasswordScore {
   penalties?: string[];
 }
 
+export interface PasswordHealthEntry {
+  item: Item;
+  score?: PasswordScore;
+  reuseGroup?: number;
+  reuseCount: number;
+  breachCount?: number;
+  breachError?: string;
+  checkError?: string;
+}
+
+export interface PasswordHealthReport {
+  checkedAt: number;
+  entries: PasswordHealthEntry[];
+}
+
 export type PassCliErrorType =
   | "not_installed"
   | "not_authenticated"
   | "network_error"
   | "keyring_error"
   | "timeout"
+  | "conflict"
   | "invalid_output"
   | "unknown";
 
@@ -79,4 +245,5 @@ export interface Preferences {
   defaultPasswordLength?: string;
   defaultPasswordType?: string;
   copyPasswordTransient?: boolean;
+  breachFilePath?: string;
 }
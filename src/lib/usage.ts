@@ -0,0 +1,51 @@
+import { LocalStorage } from "@raycast/api";
+import { Item } from "./types";
+import { getItemKey } from "./utils";
+
+const USAGE_HISTORY_KEY = "proton_pass_usage_history";
+const MAX_EVENTS_PER_ITEM = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RECENCY_WEIGHTS: [number, number][] = [
+  [4 * DAY_MS, 100],
+  [14 * DAY_MS, 70],
+  [31 * DAY_MS, 50],
+  [90 * DAY_MS, 30],
+];
+const OLD_EVENT_WEIGHT = 10;
+
+async function getUsageHistory(): Promise<Record<string, number[]>> {
+  try {
+    const raw = await LocalStorage.getItem<string>(USAGE_HISTORY_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, number[]>) : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function recordItemUsage(item: Pick<Item, "shareId" | "itemId">): Promise<void> {
+  const history = await getUsageHistory();
+  const key = getItemKey(item);
+  history[key] = [Date.now(), ...(history[key] ?? [])].slice(0, MAX_EVENTS_PER_ITEM);
+  await LocalStorage.setItem(USAGE_HISTORY_KEY, JSON.stringify(history));
+}
+
+export async function resetUsageHistory(): Promise<void> {
+  await LocalStorage.removeItem(USAGE_HISTORY_KEY);
+}
+
+function getRecencyWeight(age: number): number {
+  return RECENCY_WEIGHTS.find(([maxAge]) => age < maxAge)?.[1] ?? OLD_EVENT_WEIGHT;
+}
+
+export async function getFrecencyScores(): Promise<Record<string, number>> {
+  const history = await getUsageHistory();
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(history).map(([key, events]) => [
+      key,
+      events.reduce((score, timestamp) => score + getRecencyWeight(now - timestamp), 0),
+    ]),
+  );
+}
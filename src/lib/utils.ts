@@ -1,5 +1,10 @@
-import { Icon } from "@raycast/api";
-import { Item, ItemType } from "./types";
+import { Color, Icon } from "@raycast/api";
+import { IdentityDetails, Item, ItemDetail, ItemType, VaultRole } from "./types";
+import { PRIMARY_TOTP_NAME } from "./totp";
+
+export function assertNever(value: never): never {
+  throw new Error(`Unhandled value: ${String(value)}`);
+}
 
 export function getItemIcon(type: ItemType): Icon {
   switch (type) {
@@ -22,6 +27,62 @@ export function getItemIcon(type: ItemType): Icon {
   }
 }
 
+export function getItemKey(item: Pick<Item, "shareId" | "itemId">): string {
+  return `${item.shareId}:${item.itemId}`;
+}
+
+export function parseItemKey(key: string): Pick<Item, "shareId" | "itemId"> {
+  const separator = key.lastIndexOf(":");
+  return { shareId: key.slice(0, separator), itemId: key.slice(separator + 1) };
+}
+
+export function toItem(detail: ItemDetail): Item {
+  return {
+    shareId: detail.shareId,
+    itemId: detail.itemId,
+    title: detail.title,
+    type: detail.type,
+    vaultName: detail.vaultName,
+    username: detail.username,
+    email: detail.email,
+    urls: detail.urls,
+    hasTotp: detail.hasTotp,
+    totpUri: detail.totpUri,
+    totpFields: detail.totpFields,
+    modifiedAt: detail.modifiedAt,
+  };
+}
+
+export function getRoleIcon(role: VaultRole): Icon {
+  switch (role) {
+    case "owner":
+      return Icon.Crown;
+    case "manager":
+      return Icon.PersonCircle;
+    case "editor":
+      return Icon.Pencil;
+    case "viewer":
+      return Icon.Eye;
+    default:
+      return Icon.Eye;
+  }
+}
+
+export function getRoleColor(role: VaultRole): Color {
+  switch (role) {
+    case "owner":
+      return Color.Yellow;
+    case "manager":
+      return Color.Blue;
+    case "editor":
+      return Color.Green;
+    case "viewer":
+      return Color.SecondaryText;
+    default:
+      return Color.SecondaryText;
+  }
+}
+
 export function formatItemSubtitle(item: Item): string {
   const parts: string[] = [];
 
@@ -42,18 +103,62 @@ export function maskPassword(password: string): string {
   return "•".repeat(password.length);
 }
 
-export function getTotpRemainingSeconds(): number {
+export function maskCardNumber(number: string): string {
+  const lastFour = number.slice(-4);
+  return number.length > 4 ? `•••• ${lastFour}` : maskPassword(number);
+}
+
+export function formatCardExpiry(expirationDate: string): string {
+  const isoMatch = expirationDate.match(/^(\d{4})-(\d{1,2})/);
+  if (isoMatch) {
+    return `${isoMatch[2].padStart(2, "0")}/${isoMatch[1].slice(2)}`;
+  }
+
+  const compactMatch = expirationDate.match(/^(\d{2})(\d{2}|\d{4})$/);
+  if (compactMatch) {
+    return `${compactMatch[1]}/${compactMatch[2].slice(-2)}`;
+  }
+
+  return expirationDate;
+}
+
+export function formatIdentityName(identity: IdentityDetails): string | undefined {
+  if (identity.fullName) return identity.fullName;
+  const parts = [identity.firstName, identity.middleName, identity.lastName].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+export function formatIdentityAddress(identity: IdentityDetails): string | undefined {
+  const street = [identity.streetAddress, identity.floor].filter(Boolean).join(", ");
+  const locality = [identity.zipOrPostalCode, identity.city].filter(Boolean).join(" ");
+  const region = [identity.county, identity.stateOrProvince].filter(Boolean).join(", ");
+  const lines = [street, locality, region, identity.countryOrRegion ?? ""].filter((line) => line.length > 0);
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+export function getTotpRemainingSeconds(period = 30): number {
   const now = Math.floor(Date.now() / 1000);
-  const timeStep = 30;
-  const secondsElapsed = now % timeStep;
-  return timeStep - secondsElapsed;
+  const secondsElapsed = now % period;
+  return period - secondsElapsed;
+}
+
+export function getTotpTimerColor(remainingSeconds: number, period: number): Color {
+  if (remainingSeconds > period / 3) return Color.Green;
+  if (remainingSeconds > period / 6) return Color.Yellow;
+  return Color.Red;
+}
+
+export function formatTotpName(name: string): string {
+  return name === PRIMARY_TOTP_NAME ? "TOTP" : name;
 }
 
 export function formatTotpCode(code: string): string {
-  if (code.length === 6) {
-    return `${code.slice(0, 3)} ${code.slice(3)}`;
+  if (code.length < 5 || !/^\d+$/.test(code)) return code;
+  if (code.length <= 8) {
+    const split = Math.floor(code.length / 2);
+    return `${code.slice(0, split)} ${code.slice(split)}`;
   }
-  return code;
+  return code.match(/.{1,3}/g)?.join(" ") ?? code;
 }
 
 export function getPasswordStrengthLabel(passwordScore: string): string {
@@ -77,3 +182,29 @@ export function getPasswordStrengthIcon(passwordScore: string): Icon {
 
   return Icon.QuestionMark;
 }
+
+export function getUrlHost(url: string): string | undefined {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `https://${url}`;
+  try {
+    const host = new URL(withScheme).hostname.toLowerCase();
+    return host.replace(/^(www\d*|m|mobile|login|accounts?)\./, "") || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatBreachCount(count: number): string {
+  return `Seen ${count.toLocaleString()} ${count === 1 ? "time" : "times"}`;
+}
+
+export function canWriteToVault(role: VaultRole): boolean {
+  return role !== "viewer";
+}
+
+export function canManageVault(role: VaultRole): boolean {
+  return role === "owner" || role === "manager";
+}
+
+export function canDeleteVault(role: VaultRole): boolean {
+  return role === "owner";
+}
@@ -0,0 +1,292 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  Form,
+  showToast,
+  Toast,
+  confirmAlert,
+  Alert,
+  useNavigation,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import {
+  listVaultMembers,
+  inviteVaultMember,
+  updateVaultMemberRole,
+  removeVaultMember,
+  cancelVaultInvite,
+} from "./pass-cli";
+import { Vault, VaultInvite, VaultMember, VaultMembers as VaultMembersData, VaultRole } from "./types";
+import { getRoleIcon, getRoleColor, canManageVault } from "./utils";
+
+const ASSIGNABLE_ROLES: VaultRole[] = ["manager", "editor", "viewer"];
+
+function formatRole(role: VaultRole): string {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function InviteMemberForm({ vault, onInvited }: { vault: Vault; onInvited: () => void }) {
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { email: string; role: string }) {
+    const email = values.email.trim();
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      setEmailError("Enter a valid email address");
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Sending invite..." });
+    try {
+      await inviteVaultMember(vault, email, values.role as VaultRole);
+      onInvited();
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Invite Sent";
+      toast.message = email;
+      pop();
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to send invite";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Invite to ${vault.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Send Invite" icon={Icon.Envelope} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="email"
+        title="Email"
+        placeholder="teammate@example.com"
+        error={emailError}
+        onChange={() => setEmailError(undefined)}
+      />
+      <Form.Dropdown id="role" title="Role" defaultValue="viewer">
+        {ASSIGNABLE_ROLES.map((role) => (
+          <Form.Dropdown.Item key={role} value={role} title={formatRole(role)} icon={getRoleIcon(role)} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+export function VaultMembers({ vault }: { vault: Vault }) {
+  const [data, setData] = useState<VaultMembersData>({ members: [], invites: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const canManage = canManageVault(vault.role);
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  async function loadMembers() {
+    setIsLoading(true);
+    try {
+      setData(await listVaultMembers(vault));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "An unknown error occurred";
+      await showToast({ style: Toast.Style.Failure, title: "Failed to load members", message });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleChangeRole(member: VaultMember, role: VaultRole) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Changing role..." });
+    try {
+      await updateVaultMemberRole(vault, member, role);
+      setData((current) => ({
+        ...current,
+        members: current.members.map((m) => (m.memberShareId === member.memberShareId ? { ...m, role } : m)),
+      }));
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Role Changed";
+      toast.message = `${member.email} is now ${role}`;
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to change role";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  async function handleRemoveMember(member: VaultMember) {
+    const confirmed = await confirmAlert({
+      title: "Revoke Access?",
+      message: `${member.email} will lose access to "${vault.name}".`,
+      icon: Icon.RemovePerson,
+      primaryAction: { title: "Revoke", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Revoking access..." });
+    try {
+      await removeVaultMember(vault, member);
+      setData((current) => ({
+        ...current,
+        members: current.members.filter((m) => m.memberShareId !== member.memberShareId),
+      }));
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Access Revoked";
+      toast.message = member.email;
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to revoke access";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  async function handleCancelInvite(invite: VaultInvite) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Cancelling invite..." });
+    try {
+      await cancelVaultInvite(vault, invite);
+      setData((current) => ({
+        ...current,
+        invites: current.invites.filter((i) => i.inviteId !== invite.inviteId),
+      }));
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Invite Cancelled";
+      toast.message = invite.email;
+    } catch (error: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to cancel invite";
+      toast.message = error instanceof Error ? error.message : "An unknown error occurred";
+    }
+  }
+
+  const inviteAction = canManage ? (
+    <Action.Push
+      title="Invite Member"
+      icon={Icon.AddPerson}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<InviteMemberForm vault={vault} onInvited={loadMembers} />}
+    />
+  ) : null;
+
+  const refreshAction = (
+    <Action
+      title="Refresh"
+      icon={Icon.ArrowClockwise}
+      shortcut={{ modifiers: ["cmd"], key: "r" }}
+      onAction={loadMembers}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`${vault.name} Members`} searchBarPlaceholder="Search members...">
+      {data.members.length === 0 && data.invites.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.TwoPeople}
+          title="No Members"
+          description="This vault is not shared with anyone"
+          actions={
+            <ActionPanel>
+              {inviteAction}
+              {refreshAction}
+            </ActionPanel>
+          }
+        />
+      ) : (
+        <>
+          <List.Section title="Members" subtitle={`${data.members.length}`}>
+            {data.members.map((member) => {
+              const isEditable = canManage && !member.isCurrentUser && member.role !== "owner";
+              return (
+                <List.Item
+                  key={member.memberShareId}
+                  icon={Icon.Person}
+                  title={member.name ?? member.email}
+                  subtitle={member.name ? member.email : undefined}
+                  accessories={[
+                    member.isCurrentUser ? { tag: "You" } : null,
+                    {
+                      tag: { value: member.role, color: getRoleColor(member.role) },
+                      icon: getRoleIcon(member.role),
+                      tooltip: `Role: ${member.role}`,
+                    },
+                  ].filter((a): a is NonNullable<typeof a> => a !== null)}
+                  actions={
+                    <ActionPanel>
+                      <Action.CopyToClipboard title="Copy Email" content={member.email} />
+                      {isEditable && (
+                        <ActionPanel.Submenu
+                          title="Change Role"
+                          icon={Icon.Switch}
+                          shortcut={{ modifiers: ["cmd"], key: "e" }}
+                        >
+                          {ASSIGNABLE_ROLES.filter((role) => role !== member.role).map((role) => (
+                            <Action
+                              key={role}
+                              title={formatRole(role)}
+                              icon={getRoleIcon(role)}
+                              onAction={() => handleChangeRole(member, role)}
+                            />
+                          ))}
+                        </ActionPanel.Submenu>
+                      )}
+                      {isEditable && (
+                        <Action
+                          title="Revoke Access"
+                          icon={Icon.RemovePerson}
+                          style={Action.Style.Destructive}
+                          shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                          onAction={() => handleRemoveMember(member)}
+                        />
+                      )}
+                      <ActionPanel.Section>
+                        {inviteAction}
+                        {refreshAction}
+                      </ActionPanel.Section>
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+          <List.Section title="Pending Invites" subtitle={`${data.invites.length}`}>
+            {data.invites.map((invite) => (
+              <List.Item
+                key={invite.inviteId}
+                icon={{ source: Icon.Envelope, tintColor: Color.SecondaryText }}
+                title={invite.email}
+                accessories={[
+                  { tag: { value: invite.role, color: getRoleColor(invite.role) }, icon: getRoleIcon(invite.role) },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action.CopyToClipboard title="Copy Email" content={invite.email} />
+                    {canManage && (
+                      <Action
+                        title="Cancel Invite"
+                        icon={Icon.XMarkCircle}
+                        style={Action.Style.Destructive}
+                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                        onAction={() => handleCancelInvite(invite)}
+                      />
+                    )}
+                    <ActionPanel.Section>
+                      {inviteAction}
+                      {refreshAction}
+                    </ActionPanel.Section>
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        </>
+      )}
+    </List>
+  );
+}
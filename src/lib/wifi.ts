@@ -0,0 +1,34 @@
+import QRCode from "qrcode";
+import { WifiDetails } from "./types";
+
+const QR_CODE_WIDTH = 256;
+
+function escapeWifiValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, "\\$1");
+}
+
+function getWifiAuthType(security?: string): string {
+  const normalized = security?.toUpperCase().replace(/[^A-Z0-9]/g, "") ?? "";
+  if (normalized.startsWith("WEP")) return "WEP";
+  if (normalized === "NONE" || normalized === "OPEN" || normalized === "NOPASS") return "nopass";
+  return "WPA";
+}
+
+export function buildWifiPayload(wifi: WifiDetails): string | undefined {
+  if (!wifi.ssid) return undefined;
+
+  const authType = wifi.password ? getWifiAuthType(wifi.security) : "nopass";
+  const parts = [`T:${authType}`, `S:${escapeWifiValue(wifi.ssid)}`];
+  if (authType !== "nopass" && wifi.password) {
+    parts.push(`P:${escapeWifiValue(wifi.password)}`);
+  }
+
+  return `WIFI:${parts.join(";")};;`;
+}
+
+export async function generateWifiQrCode(wifi: WifiDetails): Promise<string | undefined> {
+  const payload = buildWifiPayload(wifi);
+  if (!payload) return undefined;
+
+  return QRCode.toDataURL(payload, { width: QR_CODE_WIDTH, margin: 2, errorCorrectionLevel: "M" });
+}
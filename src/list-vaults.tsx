@@ -1,12 +1,26 @@
-import { List, ActionPanel, Action, Icon, showToast, Toast, Color } from "@raycast/api";
+import { List, ActionPanel, Action, Icon, showToast, Toast, Color, Form, useNavigation } from "@raycast/api";
 import { useState, useEffect, useRef } from "react";
-import { listVaults, listItems, checkAuth } from "./lib/pass-cli";
-import { Vault, Item, PassCliError, VaultRole, PROTON_PASS_CLI_DOCS } from "./lib/types";
-import { getItemIcon } from "./lib/utils";
-import { getCachedVaults, setCachedVaults, getCachedItems, setCachedItems } from "./lib/cache";
+import { listVaults, listItems, checkAuth, createVault, renameVault, deleteVault } from "./lib/pass-cli";
+import { Vault, Item, PassCliError, PROTON_PASS_CLI_DOCS } from "./lib/types";
+import { getItemIcon, getRoleIcon, getRoleColor, canWriteToVault, canManageVault, canDeleteVault } from "./lib/utils";
+import {
+  getCachedVaults,
+  setCachedVaults,
+  getCachedItems,
+  setCachedItems,
+  upsertCachedVault,
+  removeCachedVault,
+} from "./lib/cache";
 import { openTerminalForLogin } from "./lib/terminal";
+import { VaultMembers } from "./lib/vault-members";
+import { TrashItemAction, MoveToVaultAction, DuplicateToVaultAction } from "./lib/item-actions";
 
-function VaultItems({ vault }: { vault: Vault }) {
+interface VaultItemsProps {
+  vault: Vault;
+  onItemCountChange?: (shareId: string, delta: number) => void;
+}
+
+function VaultItems({ vault, onItemCountChange }: VaultItemsProps) {
   const [items, setItems] = useState<Item[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const hasLoadedFromCache = useRef(false);
@@ -44,6 +58,21 @@ function VaultItems({ vault }: { vault: Vault }) {
     }
   }
 
+  function handleItemRemoved(removed: Item) {
+    setItems((current) => current.filter((i) => i.itemId !== removed.itemId));
+    onItemCountChange?.(vault.shareId, -1);
+  }
+
+  function handleItemMoved(from: Item, to: Item) {
+    handleItemRemoved(from);
+    onItemCountChange?.(to.shareId, 1);
+  }
+
+  function handleItemAdded(added: Item) {
+    if (added.shareId === vault.shareId) setItems((current) => [...current, added]);
+    onItemCountChange?.(added.shareId, 1);
+  }
+
   return (
     <List isLoading={isLoading} navigationTitle={vault.name} searchBarPlaceholder="Search items...">
       {items.length === 0 && !isLoading ? (
@@ -83,6 +112,11 @@ function VaultItems({ vault }: { vault: Vault }) {
                     shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
                   />
                 )}
+                <ActionPanel.Section title="Manage">
+                  {canWriteToVault(vault.role) && <MoveToVaultAction item={item} onMoved={handleItemMoved} />}
+                  {item.type === "login" && <DuplicateToVaultAction item={item} onDuplicated={handleItemAdded} />}
+                  {canWriteToVault(vault.role) && <TrashItemAction item={item} onTrashed={handleItemRemoved} />}
+                </ActionPanel.Section>
               </ActionPanel>
             }
           />
@@ -92,6 +126,86 @@ function VaultItems({ vault }: { vault: Vault }) {
   );
 }
 
+function VaultNameForm({ vault, onSubmit }: { vault?: Vault; onSubmit: (name: string) => Promise<boolean> }) {
+  const [nameError, setNameError] = useState<string | undefined>();
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { name: string }) {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    if (await onSubmit(name)) pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={vault ? `Rename ${vault.name}` : "Create Vault"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={vault ? "Rename Vault" : "Create Vault"}
+            icon={vault ? Icon.Pencil : Icon.Plus}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Work"
+        defaultValue={vault?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
+
+function DeleteVaultForm({ vault, onDelete }: { vault: Vault; onDelete: () => Promise<boolean> }) {
+  const [confirmError, setConfirmError] = useState<string | undefined>();
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { confirmation: string }) {
+    if (values.confirmation.trim() !== vault.name) {
+      setConfirmError("Vault name does not match");
+      return;
+    }
+    if (await onDelete()) pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={`Delete ${vault.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Delete Vault"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Warning"
+        text={`Deleting "${vault.name}" permanently removes the vault and all ${vault.itemCount} ${vault.itemCount === 1 ? "item" : "items"} in it. This cannot be undone.`}
+      />
+      <Form.TextField
+        id="confirmation"
+        title="Vault Name"
+        placeholder={vault.name}
+        info="Type the vault name to confirm"
+        error={confirmError}
+        onChange={() => setConfirmError(undefined)}
+      />
+    </Form>
+  );
+}
+
 export default function Command() {
   const [vaults, setVaults] = useState<Vault[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -137,36 +251,78 @@ export default function Command() {
     }
   }
 
-  function getRoleIcon(role: VaultRole): Icon {
-    switch (role) {
-      case "owner":
-        return Icon.Crown;
-      case "manager":
-        return Icon.PersonCircle;
-      case "editor":
-        return Icon.Pencil;
-      case "viewer":
-        return Icon.Eye;
-      default:
-        return Icon.Eye;
+  function adjustVaultItemCount(shareId: string, delta: number) {
+    setVaults((current) =>
+      current.map((v) => (v.shareId === shareId ? { ...v, itemCount: Math.max(0, v.itemCount + delta) } : v)),
+    );
+  }
+
+  async function handleCreate(name: string): Promise<boolean> {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating vault..." });
+    try {
+      const vault = await createVault(name);
+      setVaults((current) => [...current, vault]);
+      await upsertCachedVault(vault);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Vault Created";
+      toast.message = vault.name;
+      return true;
+    } catch (err: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to create vault";
+      toast.message = err instanceof Error ? err.message : "An unknown error occurred";
+      return false;
     }
   }
 
-  function getRoleColor(role: VaultRole): Color {
-    switch (role) {
-      case "owner":
-        return Color.Yellow;
-      case "manager":
-        return Color.Blue;
-      case "editor":
-        return Color.Green;
-      case "viewer":
-        return Color.SecondaryText;
-      default:
-        return Color.SecondaryText;
+  async function handleRename(vault: Vault, name: string): Promise<boolean> {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Renaming vault..." });
+    try {
+      const renamed = await renameVault(vault, name);
+      setVaults((current) => current.map((v) => (v.shareId === renamed.shareId ? renamed : v)));
+      await upsertCachedVault(renamed);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Vault Renamed";
+      toast.message = `${vault.name} → ${renamed.name}`;
+      return true;
+    } catch (err: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to rename vault";
+      toast.message = err instanceof Error ? err.message : "An unknown error occurred";
+      return false;
     }
   }
 
+  async function handleDelete(vault: Vault): Promise<boolean> {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Deleting vault..." });
+    try {
+      await deleteVault(vault);
+      setVaults((current) => current.filter((v) => v.shareId !== vault.shareId));
+      await removeCachedVault(vault.shareId);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Vault Deleted";
+      toast.message = vault.name;
+      return true;
+    } catch (err: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to delete vault";
+      toast.message = err instanceof Error ? err.message : "An unknown error occurred";
+      return false;
+    }
+  }
+
+  const createVaultAction = (
+    <Action.Push
+      title="Create Vault"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<VaultNameForm onSubmit={handleCreate} />}
+    />
+  );
+
   if (error?.type === "not_installed") {
     return (
       <List>
@@ -284,6 +440,7 @@ export default function Command() {
           icon={Icon.Folder}
           title="No Vaults Found"
           description="You don't have any vaults yet or they couldn't be loaded."
+          actions={<ActionPanel>{createVaultAction}</ActionPanel>}
         />
       ) : (
         vaults.map((vault) => (
@@ -304,7 +461,17 @@ export default function Command() {
             ]}
             actions={
               <ActionPanel>
-                <Action.Push title="View Items" icon={Icon.List} target={<VaultItems vault={vault} />} />
+                <Action.Push
+                  title="View Items"
+                  icon={Icon.List}
+                  target={<VaultItems vault={vault} onItemCountChange={adjustVaultItemCount} />}
+                />
+                <Action.Push
+                  title="View Members"
+                  icon={Icon.TwoPeople}
+                  shortcut={{ modifiers: ["cmd"], key: "m" }}
+                  target={<VaultMembers vault={vault} />}
+                />
                 <Action.CopyToClipboard
                   title="Copy Vault Name"
                   content={vault.name}
@@ -315,6 +482,25 @@ export default function Command() {
                   content={vault.shareId}
                   shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
                 />
+                <ActionPanel.Section title="Manage">
+                  {createVaultAction}
+                  {canManageVault(vault.role) && (
+                    <Action.Push
+                      title="Rename Vault"
+                      icon={Icon.Pencil}
+                      shortcut={{ modifiers: ["cmd"], key: "e" }}
+                      target={<VaultNameForm vault={vault} onSubmit={(name) => handleRename(vault, name)} />}
+                    />
+                  )}
+                  {canDeleteVault(vault.role) && (
+                    <Action.Push
+                      title="Delete Vault"
+                      icon={{ source: Icon.Trash, tintColor: Color.Red }}
+                      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                      target={<DeleteVaultForm vault={vault} onDelete={() => handleDelete(vault)} />}
+                    />
+                  )}
+                </ActionPanel.Section>
               </ActionPanel>
             }
           />
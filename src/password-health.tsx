@@ -0,0 +1,244 @@
+import { List, ActionPanel, Action, Icon, Color, showToast, Toast } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { listItems, listVaults, checkAuth } from "./lib/pass-cli";
+import { Item, PassCliError, PassCliErrorType, PasswordHealthEntry, PasswordHealthReport, Vault } from "./lib/types";
+import { getItemIcon, formatItemSubtitle, getPasswordStrengthLabel, formatBreachCount } from "./lib/utils";
+import {
+  getCachedHealthReport,
+  setCachedHealthReport,
+  getCachedVaults,
+  setCachedItems,
+  setCachedVaults,
+} from "./lib/cache";
+import { renderErrorView } from "./lib/error-views";
+import { ItemDetailView } from "./lib/item-detail";
+import {
+  checkPasswordHealth,
+  getReusedEntries,
+  getReuseSiblings,
+  isStaleItem,
+  isWeakScore,
+  STALE_ITEM_LABEL,
+} from "./lib/password-health";
+
+export default function Command() {
+  const [report, setReport] = useState<PasswordHealthReport | null>(null);
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<PassCliErrorType | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  async function loadReport() {
+    const [cachedReport, cachedVaults] = await Promise.all([getCachedHealthReport(), getCachedVaults()]);
+    if (cachedReport) {
+      setReport(cachedReport);
+      setVaults(cachedVaults ?? []);
+      setIsLoading(false);
+      return;
+    }
+
+    await runCheck();
+  }
+
+  async function runCheck() {
+    setError(null);
+    setIsLoading(true);
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Checking passwords..." });
+    try {
+      const isAuth = await checkAuth();
+      if (!isAuth) {
+        toast.hide();
+        setError("not_authenticated");
+        return;
+      }
+
+      const [items, freshVaults] = await Promise.all([listItems(), listVaults()]);
+      await Promise.all([setCachedItems(items), setCachedVaults(freshVaults)]);
+      setVaults(freshVaults);
+
+      const freshReport = await checkPasswordHealth(items, (checked, total) => {
+        toast.message = `${checked} of ${total} logins`;
+      });
+      setReport(freshReport);
+      await setCachedHealthReport(freshReport);
+
+      const checkErrors = freshReport.entries.filter((entry) => entry.checkError);
+      const breachErrors = freshReport.entries.filter((entry) => entry.breachError);
+      if (checkErrors.length > 0) {
+        toast.style = Toast.Style.Failure;
+        toast.title = `Could not check ${checkErrors.length} of ${freshReport.entries.length} logins`;
+        toast.message = checkErrors[0].checkError;
+      } else if (breachErrors.length > 0) {
+        toast.style = Toast.Style.Failure;
+        toast.title = `Breach check failed for ${breachErrors.length} of ${freshReport.entries.length} logins`;
+        toast.message = breachErrors[0].breachError;
+      } else {
+        toast.style = Toast.Style.Success;
+        toast.title = "Password Check Complete";
+        toast.message = `${freshReport.entries.length} logins checked`;
+      }
+    } catch (e: unknown) {
+      toast.hide();
+      setError(e instanceof PassCliError ? e.type : "unknown");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleItemUpdated(updated: Item) {
+    setReport((current) =>
+      current
+        ? {
+            ...current,
+            entries: current.entries.map((entry) =>
+              entry.item.shareId === updated.shareId && entry.item.itemId === updated.itemId
+                ? { ...entry, item: updated }
+                : entry,
+            ),
+          }
+        : current,
+    );
+  }
+
+  const errorView = renderErrorView(error, runCheck, "Check Passwords");
+  if (errorView) return errorView;
+
+  function renderEntry(section: string, entry: PasswordHealthEntry, accessories: List.Item.Accessory[]) {
+    const { item } = entry;
+    return (
+      <List.Item
+        key={`${section}-${item.shareId}-${item.itemId}`}
+        icon={getItemIcon(item.type)}
+        title={item.title}
+        subtitle={formatItemSubtitle(item)}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            <Action.Push
+              title="Show Details"
+              icon={Icon.Eye}
+              target={
+                <ItemDetailView
+                  item={item}
+                  vaultRole={vaults.find((v) => v.shareId === item.shareId)?.role}
+                  onItemUpdated={handleItemUpdated}
+                />
+              }
+            />
+            <ActionPanel.Section>
+              <Action
+                title="Check Again"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={runCheck}
+              />
+            </ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  const entries = report?.entries ?? [];
+  const breached = entries
+    .filter((entry) => (entry.breachCount ?? 0) > 0)
+    .sort((a, b) => (b.breachCount ?? 0) - (a.breachCount ?? 0));
+  const checkFailed = entries.filter((entry) => entry.checkError);
+  const breachCheckFailed = entries.filter((entry) => entry.breachError);
+  const weak = entries.filter((entry) => isWeakScore(entry.score));
+  const reused = getReusedEntries(entries);
+  const withoutTotp = entries.filter((entry) => !entry.item.hasTotp);
+  const stale = entries.filter((entry) => isStaleItem(entry.item, report?.checkedAt));
+  const hasIssues =
+    checkFailed.length +
+      breached.length +
+      breachCheckFailed.length +
+      weak.length +
+      reused.length +
+      withoutTotp.length +
+      stale.length >
+    0;
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search flagged logins..."
+      navigationTitle={report ? `Password Health · ${new Date(report.checkedAt).toLocaleString()}` : "Password Health"}
+    >
+      {!hasIssues && !isLoading ? (
+        <List.EmptyView
+          icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+          title="All Passwords Look Healthy"
+          description={`${entries.length} logins checked`}
+          actions={
+            <ActionPanel>
+              <Action title="Check Again" icon={Icon.ArrowClockwise} onAction={runCheck} />
+            </ActionPanel>
+          }
+        />
+      ) : (
+        <>
+          <List.Section title="Breached Passwords" subtitle={breached.length.toString()}>
+            {breached.map((entry) =>
+              renderEntry("breached", entry, [
+                {
+                  tag: { value: formatBreachCount(entry.breachCount ?? 0), color: Color.Red },
+                  tooltip: "Appears in the Have I Been Pwned breached password list",
+                },
+              ]),
+            )}
+          </List.Section>
+          <List.Section title="Could Not Check" subtitle={checkFailed.length.toString()}>
+            {checkFailed.map((entry) =>
+              renderEntry("check-error", entry, [
+                { icon: { source: Icon.Warning, tintColor: Color.Orange }, tooltip: entry.checkError },
+              ]),
+            )}
+          </List.Section>
+          <List.Section title="Breach Check Failed" subtitle={breachCheckFailed.length.toString()}>
+            {breachCheckFailed.map((entry) =>
+              renderEntry("breach-error", entry, [
+                { icon: { source: Icon.Warning, tintColor: Color.Orange }, tooltip: entry.breachError },
+              ]),
+            )}
+          </List.Section>
+          <List.Section title="Weak Passwords" subtitle={weak.length.toString()}>
+            {weak.map((entry) =>
+              renderEntry("weak", entry, [
+                {
+                  tag: { value: getPasswordStrengthLabel(entry.score?.passwordScore ?? ""), color: Color.Red },
+                },
+              ]),
+            )}
+          </List.Section>
+          <List.Section title="Reused Passwords" subtitle={reused.length.toString()}>
+            {reused.map((entry) =>
+              renderEntry("reused", entry, [
+                {
+                  text: `Used in ${entry.reuseCount} items`,
+                  tooltip: `Same password as ${getReuseSiblings(entries, entry)
+                    .map((item) => item.title)
+                    .join(", ")}`,
+                },
+              ]),
+            )}
+          </List.Section>
+          <List.Section title="No Two-Factor Authentication" subtitle={withoutTotp.length.toString()}>
+            {withoutTotp.map((entry) => renderEntry("no-totp", entry, [{ text: entry.item.vaultName }]))}
+          </List.Section>
+          <List.Section title={STALE_ITEM_LABEL} subtitle={stale.length.toString()}>
+            {stale.map((entry) =>
+              renderEntry("stale", entry, [
+                { date: new Date(entry.item.modifiedAt ?? 0), tooltip: "Item last modified", icon: Icon.Clock },
+              ]),
+            )}
+          </List.Section>
+        </>
+      )}
+    </List>
+  );
+}
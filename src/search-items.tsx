@@ -3,239 +3,27 @@ import {
   ActionPanel,
   Action,
   Icon,
+  Color,
   showToast,
   Toast,
   Clipboard,
   getPreferenceValues,
-  Detail,
+  confirmAlert,
+  Alert,
 } from "@raycast/api";
 import { useState, useEffect, useRef } from "react";
-import { listItems, listVaults, getItem, getItemRaw, getTotp, checkAuth } from "./lib/pass-cli";
-import { Item, ItemDetail as ItemDetailType, Preferences, PassCliError, PassCliErrorType, Vault } from "./lib/types";
-import { getItemIcon, formatItemSubtitle, maskPassword, formatTotpCode } from "./lib/utils";
+import { listItems, listVaults, getItem, checkAuth } from "./lib/pass-cli";
+import { Item, Preferences, PassCliError, PassCliErrorType, Vault, VaultRole } from "./lib/types";
+import { getItemIcon, getItemKey, formatItemSubtitle, canWriteToVault } from "./lib/utils";
 import { getCachedItems, setCachedItems, getCachedVaults, setCachedVaults } from "./lib/cache";
 import { renderErrorView } from "./lib/error-views";
-
-function ItemDetail({ item }: { item: Item }) {
-  const [detail, setDetail] = useState<ItemDetailType | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const preferences = getPreferenceValues<Preferences>();
-
-  useEffect(() => {
-    loadDetail();
-  }, []);
-
-  async function loadDetail() {
-    try {
-      const itemDetail = await getItem(item.shareId, item.itemId);
-      setDetail(itemDetail);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "An unknown error occurred";
-      showToast({
-        style: Toast.Style.Failure,
-        title: "Failed to load item details",
-        message,
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  }
-
-  if (isLoading) {
-    return <Detail isLoading={true} />;
-  }
-
-  if (!detail) {
-    return <Detail markdown="Failed to load item details" />;
-  }
-
-  const markdownParts: string[] = [];
-
-  markdownParts.push(`# ${detail.title}\n`);
-  markdownParts.push(`**Type:** ${detail.type}`);
-  markdownParts.push(`**Vault:** ${detail.vaultName}\n`);
-
-  if (detail.username) {
-    markdownParts.push(`**Username:** ${detail.username}`);
-  }
-
-  if (detail.email) {
-    markdownParts.push(`**Email:** ${detail.email}`);
-  }
-
-  if (detail.password) {
-    markdownParts.push(`**Password:** ${maskPassword(detail.password)}`);
-  }
-
-  if (detail.urls && detail.urls.length > 0) {
-    markdownParts.push(`\n**URLs:**`);
-    detail.urls.forEach((url) => {
-      markdownParts.push(`- ${url}`);
-    });
-  }
-
-  if (detail.note) {
-    markdownParts.push(`\n**Note:**\n${detail.note}`);
-  }
-
-  if (detail.customFields && detail.customFields.length > 0) {
-    markdownParts.push(`\n**Custom Fields:**`);
-    detail.customFields.forEach((field) => {
-      const value = field.type === "hidden" ? maskPassword(field.value) : field.value;
-      markdownParts.push(`- **${field.name}:** ${value}`);
-    });
-  }
-
-  if (detail.hasTotp) {
-    markdownParts.push(`\n**2FA:** Enabled`);
-  }
-
-  const markdown = markdownParts.join("\n");
-
-  return (
-    <Detail
-      markdown={markdown}
-      metadata={
-        <Detail.Metadata>
-          <Detail.Metadata.Label title="Type" text={detail.type} icon={getItemIcon(detail.type)} />
-          <Detail.Metadata.Label title="Vault" text={detail.vaultName} />
-          {detail.username && <Detail.Metadata.Label title="Username" text={detail.username} />}
-          {detail.email && <Detail.Metadata.Label title="Email" text={detail.email} />}
-          {detail.hasTotp && <Detail.Metadata.Label title="2FA" icon={Icon.Clock} />}
-        </Detail.Metadata>
-      }
-      actions={
-        <ActionPanel>
-          <ActionPanel.Section title="Copy">
-            {detail.password && (
-              <Action
-                title="Copy Password"
-                icon={Icon.Key}
-                shortcut={{ modifiers: ["cmd"], key: "c" }}
-                onAction={async () => {
-                  await Clipboard.copy(detail.password!, { transient: preferences.copyPasswordTransient ?? true });
-                  showToast({ style: Toast.Style.Success, title: "Password Copied" });
-                }}
-              />
-            )}
-            {detail.username && (
-              <Action.CopyToClipboard
-                title="Copy Username"
-                content={detail.username}
-                shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-              />
-            )}
-            {detail.email && (
-              <Action.CopyToClipboard
-                title="Copy Email"
-                content={detail.email}
-                shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
-              />
-            )}
-            {detail.urls && detail.urls.length > 0 && (
-              <Action.CopyToClipboard
-                title="Copy First URL"
-                content={detail.urls[0]}
-                shortcut={{ modifiers: ["cmd"], key: "u" }}
-              />
-            )}
-            {detail.hasTotp && (
-              <Action
-                title="Copy TOTP Code"
-                icon={Icon.Clock}
-                shortcut={{ modifiers: ["cmd"], key: "t" }}
-                onAction={async () => {
-                  try {
-                    const totp = await getTotp(detail.shareId, detail.itemId);
-                    await Clipboard.copy(totp);
-                    showToast({ style: Toast.Style.Success, title: "TOTP Copied", message: formatTotpCode(totp) });
-                  } catch (error: unknown) {
-                    const message = error instanceof Error ? error.message : "An unknown error occurred";
-                    showToast({ style: Toast.Style.Failure, title: "Failed to get TOTP", message });
-                  }
-                }}
-              />
-            )}
-            {detail.note && (
-              <Action.CopyToClipboard
-                title="Copy Note"
-                content={detail.note}
-                shortcut={{ modifiers: ["cmd"], key: "n" }}
-              />
-            )}
-          </ActionPanel.Section>
-          {detail.customFields && detail.customFields.length > 0 && (
-            <ActionPanel.Section title="Custom Fields">
-              {detail.customFields.map((field, index) => (
-                <Action.CopyToClipboard
-                  key={index}
-                  title={`Copy ${field.name}`}
-                  content={field.value}
-                  shortcut={
-                    index < 9
-                      ? {
-                          modifiers: ["cmd", "shift"],
-                          key: String(index + 1) as "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9",
-                        }
-                      : undefined
-                  }
-                />
-              ))}
-            </ActionPanel.Section>
-          )}
-          {detail.urls && detail.urls.length > 1 && (
-            <ActionPanel.Section title="URLs">
-              {detail.urls.map((url, index) => (
-                <Action.OpenInBrowser key={index} title={`Open ${url}`} url={url} />
-              ))}
-            </ActionPanel.Section>
-          )}
-          <ActionPanel.Section title="Debug">
-            <Action.CopyToClipboard
-              title="Copy Item Debug Info"
-              content={JSON.stringify(
-                {
-                  type: detail.type,
-                  hasPassword: !!detail.password,
-                  hasUsername: !!detail.username,
-                  hasEmail: !!detail.email,
-                  hasUrls: !!detail.urls?.length,
-                  hasNote: !!detail.note,
-                  hasTotp: detail.hasTotp,
-                  customFieldsCount: detail.customFields?.length ?? 0,
-                },
-                null,
-                2,
-              )}
-              shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
-            />
-            <Action
-              title="Copy Raw CLI Output"
-              icon={Icon.Terminal}
-              shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
-              onAction={async () => {
-                try {
-                  const raw = await getItemRaw(detail.shareId, detail.itemId);
-                  await Clipboard.copy(raw);
-                  showToast({
-                    style: Toast.Style.Success,
-                    title: "Raw JSON Copied",
-                    message: "Paste to see actual CLI output",
-                  });
-                } catch (error: unknown) {
-                  const message = error instanceof Error ? error.message : "An unknown error occurred";
-                  showToast({ style: Toast.Style.Failure, title: "Failed", message });
-                }
-              }}
-            />
-          </ActionPanel.Section>
-        </ActionPanel>
-      }
-    />
-  );
-}
+import { ItemDetailView } from "./lib/item-detail";
+import { TrashItemAction, MoveToVaultAction, DuplicateToVaultAction, CopyTotpActions } from "./lib/item-actions";
+import { filterItems, parseSearchQuery, SEARCH_FILTER_KEYS } from "./lib/search-query";
+import { getFrecencyScores, recordItemUsage, resetUsageHistory } from "./lib/usage";
 
 const ALL_VAULTS_VALUE = "all";
+const RECENT_ITEMS_LIMIT = 5;
 
 function VaultDropdown({ vaults, onVaultChange }: { vaults: Vault[]; onVaultChange: (vaultId: string) => void }) {
   return (
@@ -254,6 +42,8 @@ export default function Command() {
   const [items, setItems] = useState<Item[]>([]);
   const [vaults, setVaults] = useState<Vault[]>([]);
   const [selectedVaultId, setSelectedVaultId] = useState<string>(ALL_VAULTS_VALUE);
+  const [searchText, setSearchText] = useState("");
+  const [usageScores, setUsageScores] = useState<Record<string, number>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<{ type: PassCliErrorType; message?: string } | null>(null);
   const preferences = getPreferenceValues<Preferences>();
@@ -261,8 +51,32 @@ export default function Command() {
 
   useEffect(() => {
     loadItems();
+    refreshUsageScores();
   }, []);
 
+  async function refreshUsageScores() {
+    setUsageScores(await getFrecencyScores());
+  }
+
+  async function handleItemUsed(item: Item) {
+    await recordItemUsage(item);
+    await refreshUsageScores();
+  }
+
+  async function handleResetUsage() {
+    const confirmed = await confirmAlert({
+      title: "Reset Usage History?",
+      message: "Recently used items will no longer be ranked first.",
+      icon: Icon.ArrowCounterClockwise,
+      primaryAction: { title: "Reset", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await resetUsageHistory();
+    setUsageScores({});
+    showToast({ style: Toast.Style.Success, title: "Usage History Reset" });
+  }
+
   async function loadItems() {
     setError(null);
 
@@ -304,119 +118,160 @@ export default function Command() {
   const errorView = renderErrorView(error?.type ?? null, loadItems, "Load Items");
   if (errorView) return errorView;
 
-  const filteredItems =
+  function handleItemUpdated(updated: Item) {
+    setItems((current) =>
+      current.map((i) => (i.shareId === updated.shareId && i.itemId === updated.itemId ? updated : i)),
+    );
+  }
+
+  function handleItemMoved(from: Item, to: Item) {
+    setItems((current) => current.map((i) => (i.shareId === from.shareId && i.itemId === from.itemId ? to : i)));
+  }
+
+  function handleItemAdded(added: Item) {
+    setItems((current) => [...current, added]);
+  }
+
+  function handleItemRemoved(removed: Item) {
+    setItems((current) => current.filter((i) => !(i.shareId === removed.shareId && i.itemId === removed.itemId)));
+  }
+
+  function getVaultRole(item: Item): VaultRole | undefined {
+    return vaults.find((v) => v.shareId === item.shareId)?.role;
+  }
+
+  function canWriteToItem(item: Item): boolean {
+    const role = getVaultRole(item);
+    return role !== undefined && canWriteToVault(role);
+  }
+
+  const vaultItems =
     selectedVaultId === ALL_VAULTS_VALUE ? items : items.filter((item) => item.shareId === selectedVaultId);
+  const query = parseSearchQuery(searchText);
+  const filteredItems = filterItems(vaultItems, query, (item) => usageScores[getItemKey(item)] ?? 0);
+  const recentItems = searchText.trim()
+    ? []
+    : filteredItems.filter((item) => (usageScores[getItemKey(item)] ?? 0) > 0).slice(0, RECENT_ITEMS_LIMIT);
+  const otherItems = filteredItems.filter((item) => !recentItems.includes(item));
+
+  function getEmptyDescription(): string {
+    if (searchText.trim()) return "No items match this search";
+    return selectedVaultId === ALL_VAULTS_VALUE ? "Your vaults are empty" : "No items in this vault";
+  }
+
+  function renderItem(item: Item) {
+    return (
+      <List.Item
+        key={`${item.shareId}-${item.itemId}`}
+        icon={getItemIcon(item.type)}
+        title={item.title}
+        subtitle={formatItemSubtitle(item)}
+        accessories={[item.hasTotp ? { icon: Icon.Clock, tooltip: "Has TOTP" } : null, { text: item.vaultName }].filter(
+          (a): a is NonNullable<typeof a> => a !== null,
+        )}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section title="Copy">
+              {item.type === "login" && (
+                <Action
+                  title="Copy Password"
+                  icon={Icon.Key}
+                  shortcut={{ modifiers: ["cmd"], key: "c" }}
+                  onAction={async () => {
+                    try {
+                      const detail = await getItem(item.shareId, item.itemId);
+                      if (detail.type === "login" && detail.password) {
+                        await Clipboard.copy(detail.password, {
+                          transient: preferences.copyPasswordTransient ?? true,
+                        });
+                        showToast({ style: Toast.Style.Success, title: "Password Copied" });
+                        await handleItemUsed(item);
+                      } else {
+                        showToast({
+                          style: Toast.Style.Failure,
+                          title: "No Password Found",
+                          message: `Item type: ${detail.type}. Check if pass-cli item view returns password field.`,
+                        });
+                      }
+                    } catch (error: unknown) {
+                      const message = error instanceof Error ? error.message : "An unknown error occurred";
+                      showToast({
+                        style: Toast.Style.Failure,
+                        title: "Failed to copy password",
+                        message,
+                      });
+                    }
+                  }}
+                />
+              )}
+              {item.username && (
+                <Action.CopyToClipboard
+                  title="Copy Username"
+                  content={item.username}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                  onCopy={() => handleItemUsed(item)}
+                />
+              )}
+              {item.email && (
+                <Action.CopyToClipboard
+                  title="Copy Email"
+                  content={item.email}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+                  onCopy={() => handleItemUsed(item)}
+                />
+              )}
+              {item.hasTotp && <CopyTotpActions item={item} onCopied={refreshUsageScores} />}
+            </ActionPanel.Section>
+            <ActionPanel.Section>
+              <Action.Push
+                title="View Details"
+                icon={Icon.Eye}
+                target={<ItemDetailView item={item} vaultRole={getVaultRole(item)} onItemUpdated={handleItemUpdated} />}
+                shortcut={{ modifiers: ["cmd"], key: "d" }}
+              />
+            </ActionPanel.Section>
+            <ActionPanel.Section title="Manage">
+              {canWriteToItem(item) && <MoveToVaultAction item={item} onMoved={handleItemMoved} />}
+              {item.type === "login" && <DuplicateToVaultAction item={item} onDuplicated={handleItemAdded} />}
+              {canWriteToItem(item) && <TrashItemAction item={item} onTrashed={handleItemRemoved} />}
+            </ActionPanel.Section>
+            {Object.keys(usageScores).length > 0 && (
+              <ActionPanel.Section>
+                <Action title="Reset Usage History" icon={Icon.ArrowCounterClockwise} onAction={handleResetUsage} />
+              </ActionPanel.Section>
+            )}
+          </ActionPanel>
+        }
+      />
+    );
+  }
 
   return (
     <List
       isLoading={isLoading}
-      searchBarPlaceholder="Search items..."
-      filtering={true}
+      searchBarPlaceholder="Search items, e.g. type:login vault:Work has:totp user:alice github"
+      filtering={false}
+      onSearchTextChange={setSearchText}
       searchBarAccessory={<VaultDropdown vaults={vaults} onVaultChange={setSelectedVaultId} />}
     >
-      {filteredItems.length === 0 && !isLoading ? (
-        <List.EmptyView
-          icon={Icon.MagnifyingGlass}
-          title="No Items Found"
-          description={selectedVaultId === ALL_VAULTS_VALUE ? "Your vaults are empty" : "No items in this vault"}
+      {query.errors.map(({ message, searchedAsText }) => (
+        <List.Item
+          key={message}
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Orange }}
+          title={message}
+          subtitle={searchedAsText ? "Searched as text" : "This filter is ignored"}
+          accessories={[{ text: SEARCH_FILTER_KEYS.map((key) => `${key}:`).join(" ") }]}
         />
+      ))}
+      {filteredItems.length === 0 && !isLoading ? (
+        <List.EmptyView icon={Icon.MagnifyingGlass} title="No Items Found" description={getEmptyDescription()} />
       ) : (
-        filteredItems.map((item) => (
-          <List.Item
-            key={`${item.shareId}-${item.itemId}`}
-            icon={getItemIcon(item.type)}
-            title={item.title}
-            subtitle={formatItemSubtitle(item)}
-            accessories={[
-              item.hasTotp ? { icon: Icon.Clock, tooltip: "Has TOTP" } : null,
-              { text: item.vaultName },
-            ].filter((a): a is NonNullable<typeof a> => a !== null)}
-            actions={
-              <ActionPanel>
-                <ActionPanel.Section title="Copy">
-                  {item.type === "login" && (
-                    <Action
-                      title="Copy Password"
-                      icon={Icon.Key}
-                      shortcut={{ modifiers: ["cmd"], key: "c" }}
-                      onAction={async () => {
-                        try {
-                          const detail = await getItem(item.shareId, item.itemId);
-                          if (detail.password) {
-                            await Clipboard.copy(detail.password, {
-                              transient: preferences.copyPasswordTransient ?? true,
-                            });
-                            showToast({ style: Toast.Style.Success, title: "Password Copied" });
-                          } else {
-                            showToast({
-                              style: Toast.Style.Failure,
-                              title: "No Password Found",
-                              message: `Item type: ${detail.type}. Check if pass-cli item view returns password field.`,
-                            });
-                          }
-                        } catch (error: unknown) {
-                          const message = error instanceof Error ? error.message : "An unknown error occurred";
-                          showToast({
-                            style: Toast.Style.Failure,
-                            title: "Failed to copy password",
-                            message,
-                          });
-                        }
-                      }}
-                    />
-                  )}
-                  {item.username && (
-                    <Action.CopyToClipboard
-                      title="Copy Username"
-                      content={item.username}
-                      shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                    />
-                  )}
-                  {item.email && (
-                    <Action.CopyToClipboard
-                      title="Copy Email"
-                      content={item.email}
-                      shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
-                    />
-                  )}
-                  {item.hasTotp && (
-                    <Action
-                      title="Copy TOTP Code"
-                      icon={Icon.Clock}
-                      shortcut={{ modifiers: ["cmd"], key: "t" }}
-                      onAction={async () => {
-                        try {
-                          const totp = await getTotp(item.shareId, item.itemId);
-                          await Clipboard.copy(totp);
-                          showToast({
-                            style: Toast.Style.Success,
-                            title: "TOTP Copied",
-                            message: formatTotpCode(totp),
-                          });
-                        } catch (error: unknown) {
-                          const message = error instanceof Error ? error.message : "An unknown error occurred";
-                          showToast({
-                            style: Toast.Style.Failure,
-                            title: "Failed to get TOTP",
-                            message,
-                          });
-                        }
-                      }}
-                    />
-                  )}
-                </ActionPanel.Section>
-                <ActionPanel.Section>
-                  <Action.Push
-                    title="View Details"
-                    icon={Icon.Eye}
-                    target={<ItemDetail item={item} />}
-                    shortcut={{ modifiers: ["cmd"], key: "d" }}
-                  />
-                </ActionPanel.Section>
-              </ActionPanel>
-            }
-          />
-        ))
+        <>
+          <List.Section title="Recently Used">{recentItems.map(renderItem)}</List.Section>
+          <List.Section title={recentItems.length > 0 ? "All Items" : undefined}>
+            {otherItems.map(renderItem)}
+          </List.Section>
+        </>
       )}
     </List>
   );
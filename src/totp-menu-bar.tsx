@@ -0,0 +1,160 @@
+import { MenuBarExtra, Icon, Clipboard, showHUD, launchCommand, LaunchType } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { getItem, getItemTotps } from "./lib/pass-cli";
+import { Item, NamedTotpCode, PassCliError } from "./lib/types";
+import {
+  getItemIcon,
+  getItemKey,
+  parseItemKey,
+  formatTotpCode,
+  formatTotpName,
+  getTotpRemainingSeconds,
+  getTotpTimerColor,
+  toItem,
+} from "./lib/utils";
+import { getCachedItems } from "./lib/cache";
+import { getPinnedTotpItems, getPinnedTotpKeys, savePinnedTotpItems } from "./lib/totp-pins";
+import { recordItemUsage } from "./lib/usage";
+
+interface PinnedTotp {
+  item: Item;
+  codes: NamedTotpCode[];
+}
+
+async function withCurrentCodes(pinned: PinnedTotp[]): Promise<PinnedTotp[]> {
+  return Promise.all(
+    pinned.map(async ({ item, codes }) => ({
+      item,
+      codes: codes.length === 0 ? codes : await getItemTotps(item).catch(() => []),
+    })),
+  );
+}
+
+export default function Command() {
+  const [pinned, setPinned] = useState<PinnedTotp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAuthenticated, setIsAuthenticated] = useState(true);
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    loadPinnedCodes();
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const expiries = pinned.flatMap(({ codes }) => codes.map((code) => code.expiresAt));
+    if (expiries.length === 0) return;
+
+    const timeout = setTimeout(
+      async () => setPinned(await withCurrentCodes(pinned)),
+      Math.max(0, Math.min(...expiries) - Date.now()),
+    );
+    return () => clearTimeout(timeout);
+  }, [pinned]);
+
+  async function loadPinnedCodes() {
+    try {
+      const keys = await getPinnedTotpKeys();
+      if (keys.length === 0) {
+        setPinned([]);
+        return;
+      }
+
+      const [cachedItems, storedItems] = await Promise.all([getCachedItems(), getPinnedTotpItems()]);
+      const fetchedItems: Item[] = [];
+      const results = await Promise.all(
+        keys.map(async (key): Promise<PinnedTotp | null> => {
+          const cached = cachedItems?.find((item) => getItemKey(item) === key);
+          let item = storedItems[key];
+          try {
+            if (!item) {
+              const { shareId, itemId } = parseItemKey(key);
+              item = toItem(await getItem(shareId, itemId));
+              fetchedItems.push(item);
+            }
+            const current = cached ? { ...cached, totpUri: item.totpUri, totpFields: item.totpFields } : item;
+            return { item: current, codes: await getItemTotps(current) };
+          } catch (error) {
+            if (error instanceof PassCliError && error.type === "not_authenticated") throw error;
+            const fallback = cached ?? item;
+            return fallback ? { item: fallback, codes: [] } : null;
+          }
+        }),
+      );
+
+      await savePinnedTotpItems(fetchedItems);
+      setPinned(results.filter((result): result is PinnedTotp => result !== null));
+    } catch (error) {
+      if (error instanceof PassCliError && error.type === "not_authenticated") {
+        setIsAuthenticated(false);
+      }
+      setPinned([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function copyCode(item: Item, totp: NamedTotpCode) {
+    await Clipboard.copy(totp.code);
+    await recordItemUsage(item);
+    await showHUD(`Copied ${item.title} TOTP Code`);
+  }
+
+  function openGetTotp() {
+    launchCommand({ name: "get-totp", type: LaunchType.UserInitiated });
+  }
+
+  return (
+    <MenuBarExtra icon={Icon.Clock} tooltip="Proton Pass TOTP" isLoading={isLoading}>
+      {!isAuthenticated ? (
+        <MenuBarExtra.Item
+          title="Not Logged In"
+          icon={Icon.Lock}
+          onAction={() => launchCommand({ name: "login", type: LaunchType.UserInitiated })}
+        />
+      ) : pinned.length === 0 && !isLoading ? (
+        <MenuBarExtra.Item
+          title="No Pinned TOTP Items"
+          subtitle="Pin items from Get TOTP Code"
+          onAction={openGetTotp}
+        />
+      ) : (
+        <MenuBarExtra.Section title="Pinned TOTP Codes">
+          {pinned.flatMap(({ item, codes }) =>
+            codes.length === 0 ? (
+              <MenuBarExtra.Item
+                key={getItemKey(item)}
+                icon={getItemIcon(item.type)}
+                title={item.title}
+                subtitle="Unavailable"
+              />
+            ) : (
+              codes.map((totp) => {
+                const remainingSeconds = getTotpRemainingSeconds(totp.period);
+                const title = codes.length > 1 ? `${item.title} (${formatTotpName(totp.name)})` : item.title;
+                return (
+                  <MenuBarExtra.Item
+                    key={`${getItemKey(item)}-${totp.name}`}
+                    icon={{
+                      source: getItemIcon(item.type),
+                      tintColor: getTotpTimerColor(remainingSeconds, totp.period),
+                    }}
+                    title={title}
+                    subtitle={`${formatTotpCode(totp.code)} · ${remainingSeconds}s`}
+                    tooltip="Copy TOTP code"
+                    onAction={() => copyCode(item, totp)}
+                  />
+                );
+              })
+            ),
+          )}
+        </MenuBarExtra.Section>
+      )}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item title="Open Get TOTP Code" icon={Icon.AppWindowList} onAction={openGetTotp} />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,122 @@
+import { List, ActionPanel, Action, Icon, showToast, Toast, confirmAlert, Alert } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { listTrashedItems, restoreItem, deleteItem, checkAuth } from "./lib/pass-cli";
+import { Item, PassCliError, PassCliErrorType } from "./lib/types";
+import { getItemIcon, formatItemSubtitle } from "./lib/utils";
+import { upsertCachedItem, adjustCachedVaultItemCount } from "./lib/cache";
+import { renderErrorView } from "./lib/error-views";
+
+export default function Command() {
+  const [items, setItems] = useState<Item[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<PassCliErrorType | null>(null);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  async function loadTrash() {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const isAuth = await checkAuth();
+      if (!isAuth) {
+        setError("not_authenticated");
+        return;
+      }
+
+      setItems(await listTrashedItems());
+    } catch (e: unknown) {
+      setError(e instanceof PassCliError ? e.type : "unknown");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function removeFromList(removed: Item) {
+    setItems((current) => current.filter((i) => !(i.shareId === removed.shareId && i.itemId === removed.itemId)));
+  }
+
+  async function handleRestore(item: Item) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Restoring item..." });
+    try {
+      await restoreItem(item);
+      await Promise.all([upsertCachedItem(item), adjustCachedVaultItemCount(item.shareId, 1)]);
+      removeFromList(item);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Item Restored";
+      toast.message = item.title;
+    } catch (e: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to restore item";
+      toast.message = e instanceof Error ? e.message : "An unknown error occurred";
+    }
+  }
+
+  async function handleDelete(item: Item) {
+    const confirmed = await confirmAlert({
+      title: "Delete Permanently?",
+      message: `"${item.title}" will be deleted for good. This cannot be undone.`,
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Deleting item..." });
+    try {
+      await deleteItem(item);
+      removeFromList(item);
+
+      toast.style = Toast.Style.Success;
+      toast.title = "Item Deleted";
+      toast.message = item.title;
+    } catch (e: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to delete item";
+      toast.message = e instanceof Error ? e.message : "An unknown error occurred";
+    }
+  }
+
+  const errorView = renderErrorView(error, loadTrash, "Load Trash");
+  if (errorView) return errorView;
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search trashed items...">
+      {items.length === 0 && !isLoading ? (
+        <List.EmptyView icon={Icon.Trash} title="Trash Is Empty" description="Items you move to trash show up here" />
+      ) : (
+        items.map((item) => (
+          <List.Item
+            key={`${item.shareId}-${item.itemId}`}
+            icon={getItemIcon(item.type)}
+            title={item.title}
+            subtitle={formatItemSubtitle(item)}
+            accessories={[{ text: item.vaultName }]}
+            actions={
+              <ActionPanel>
+                <Action title="Restore Item" icon={Icon.ArrowCounterClockwise} onAction={() => handleRestore(item)} />
+                <Action
+                  title="Delete Permanently"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() => handleDelete(item)}
+                />
+                <ActionPanel.Section>
+                  <Action
+                    title="Refresh"
+                    icon={Icon.ArrowClockwise}
+                    shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    onAction={loadTrash}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}